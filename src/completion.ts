@@ -0,0 +1,119 @@
+/* This module determines which statements can complete normally, i.e., run
+ * to their end and continue with the next statement. A statement cannot
+ * complete normally if every path through it jumps elsewhere with 'return',
+ * 'throw', 'break', or 'continue', or loops forever. Like the definite-
+ * assignment analysis, it works on the original program, before the visitor
+ * desugars anything.
+ */
+import * as t from 'babel-types';
+
+// Whether a loop test is the literal 'true', so the loop only exits by 'break'.
+export function isLiteralTrue(test: t.Node | null): boolean {
+  return test === null || t.isBooleanLiteral(test, { value: true });
+}
+
+// Whether node contains a node that satisfies pred, without entering nested
+// functions and classes. pred also receives whether the node is inside a loop
+// or switch statement within node, so that it knows where 'break' and
+// 'continue' jump to.
+function contains(node: t.Node, pred: (node: t.Node, inner: boolean) => boolean,
+  inner: boolean = false): boolean {
+  if (pred(node, inner)) {
+    return true;
+  } else if (t.isFunction(node) || t.isClass(node)) {
+    return false;
+  }
+  inner = inner || t.isLoop(node) || t.isSwitchStatement(node);
+  for (const key of (t as any).VISITOR_KEYS[node.type] as string[]) {
+    const sub = (node as any)[key] as t.Node | t.Node[] | null;
+    for (const n of Array.isArray(sub) ? sub : [ sub ]) {
+      if (n && contains(n, pred, inner)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Whether body has a 'break' or 'continue' that jumps to the statement with
+// the given labels. Unlabeled jumps go to the innermost loop, or the
+// innermost switch statement for 'break'.
+function jumpsTo(body: t.Node, jump: 'BreakStatement' | 'ContinueStatement',
+  labels: string[], unlabeled: boolean): boolean {
+  return contains(body, (node, inner) => {
+    if (node.type !== jump) {
+      return false;
+    }
+    const label = (node as t.BreakStatement | t.ContinueStatement).label;
+    return label ? labels.includes(label.name) : unlabeled && !inner;
+  });
+}
+
+/**
+ * Determines if a list of statements can complete normally. A statement that
+ * cannot complete normally makes the statements after it unreachable.
+ *
+ * @param {t.Statement[]} body the statements of a block
+ * @returns true if control may reach the end of body
+ */
+export function blockCompletes(body: t.Statement[]): boolean {
+  return body.every(s => completes(s));
+}
+
+/**
+ * Determines if a statement can complete normally.
+ *
+ * @param {t.Node} node a statement
+ * @param {string[]} labels the labels of the statement
+ * @returns true if control may reach the end of the statement
+ */
+export function completes(node: t.Node, labels: string[] = []): boolean {
+  if (t.isBlockStatement(node)) {
+    return blockCompletes(node.body);
+  } else if (t.isReturnStatement(node) || t.isThrowStatement(node) ||
+             t.isBreakStatement(node) || t.isContinueStatement(node)) {
+    return false;
+  } else if (t.isIfStatement(node)) {
+    return completes(node.consequent) || !node.alternate || completes(node.alternate);
+  } else if (t.isWhileStatement(node) || t.isForStatement(node)) {
+    return !isLiteralTrue(node.test) || jumpsTo(node.body, 'BreakStatement', labels, true);
+  } else if (t.isDoWhileStatement(node)) {
+    // The test only runs if the body completes or continues.
+    return (!isLiteralTrue(node.test) && (completes(node.body) ||
+      jumpsTo(node.body, 'ContinueStatement', labels, true))) ||
+      jumpsTo(node.body, 'BreakStatement', labels, true);
+  } else if (t.isSwitchStatement(node)) {
+    // A case that completes falls through to the next case.
+    const last = node.cases[node.cases.length - 1];
+    return !node.cases.some(c => c.test === null) || blockCompletes(last.consequent) ||
+      node.cases.some(c => c.consequent.some(s =>
+        jumpsTo(s, 'BreakStatement', labels, true)));
+  } else if (t.isLabeledStatement(node)) {
+    labels = labels.concat([ node.label.name ]);
+    return completes(node.body, labels) || jumpsTo(node.body, 'BreakStatement', labels, false);
+  } else if (t.isTryStatement(node)) {
+    if (node.finalizer && !completes(node.finalizer)) {
+      return false;
+    }
+    return completes(node.block) || (node.handler ? completes(node.handler.body) : false);
+  }
+  return true;
+}
+
+/**
+ * Finds the return statements of a function.
+ *
+ * @param {t.Function} node the function
+ * @returns the return statements in the body of node, excluding the return
+ *   statements of nested functions
+ */
+export function returnStatements(node: t.Function): t.ReturnStatement[] {
+  const returns: t.ReturnStatement[] = [];
+  contains(node.body, n => {
+    if (t.isReturnStatement(n)) {
+      returns.push(n);
+    }
+    return false;
+  });
+  return returns;
+}
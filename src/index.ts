@@ -5,8 +5,14 @@ import * as babel from 'babel-core';
 import { Node, Program } from 'babel-types';
 import * as babylon from 'babylon';
 import * as visitor from './visitor';
-import { CompileOK, CompileError, CompilerOpts, Result } from './types';
-export { CompileOK, CompileError, CompilerOpts, Result } from './types';
+import { ResolvedOpts, resolveLevel } from './levels';
+import {
+  CompileOK, CompileError, CompilerOpts, ElementarySyntaxError, LanguageLevel, Result, TextEdit
+} from './types';
+export {
+  CompileOK, CompileError, CompilerOpts, ElementarySyntaxError, ErrorCode, LanguageLevel, Result,
+  RuleConfig, RuleSetting, Severity, SourceRange, TextEdit
+} from './types';
 import { polyfillHofFromAst } from '@stopify/higher-order-functions';
 import * as stopify from '@stopify/stopify';
 import * as runtime from './runtime';
@@ -27,15 +33,30 @@ const hostname = theGlobal.location?.hostname;
 theGlobal.elementaryJS = runtime;
 theGlobal.stopify = stopify;
 
+// The globals that ElementaryRunner installs. The compiler reports references
+// to any other free variable, except the names of whitelisted modules.
+const globalNames = [
+  'elementaryjs', 'console', 'test', 'assert', 'lib220', 'ocelot', 'version', 'Array', 'Error',
+  'Math', 'undefined', 'Infinity', 'Object', 'parseInt', 'parseFloat', 'hire', 'wheat1', 'chaff1',
+  'JSON', 'parser', 'geometry', 'require'
+] as const;
+
+function knownGlobals(opts: ResolvedOpts<Partial<CompilerOpts>>): string[] {
+  return (globalNames as readonly string[]).concat(Object.keys(opts.whitelistCode || {}));
+}
+
 class ElementaryRunner implements CompileOK {
   public g: { [key: string]: any };
   public kind: 'ok' = 'ok';
+  public level: LanguageLevel;
   private codeMap: { [key: string]: any };
-  private ejsOff: boolean;
 
-  constructor(private runner: stopify.AsyncRun & stopify.AsyncEval, opts: CompilerOpts) {
-    this.ejsOff = opts.ejsOff as boolean;
-    if (this.ejsOff) { runtime.disableEJS(); }
+  // NOTE: opts must already be resolved by 'resolveLevel', and 'eval' compiles with the same
+  // opts, so that the REPL is held to the same language level as the program.
+  constructor(private runner: stopify.AsyncRun & stopify.AsyncEval, private opts: ResolvedOpts<CompilerOpts>,
+    public warnings: ElementarySyntaxError[]) {
+    if (opts.ejsOff) { runtime.disableEJS(); }
+    this.level = opts.level!;
 
     this.codeMap = {};
     const config = {
@@ -57,7 +78,7 @@ class ElementaryRunner implements CompileOK {
       parse: (text: string) => runtime.stopifyObjectArrayRecur(JSON.parse(text))
     });
 
-    const globals = {
+    const globals: { [name in typeof globalNames[number]]: any } = {
       elementaryjs: runtime,
       console: Object.freeze({
         log: (message: string) => opts.consoleLog(message)
@@ -69,6 +90,7 @@ class ElementaryRunner implements CompileOK {
       ocelot: Object.freeze(this.codeMap.lib220),
       version: opts.version,
       Array: runtime.Array,
+      Error: runtime.ElementaryError,
       Math: Math,
       undefined: undefined,
       Infinity: Number.POSITIVE_INFINITY,
@@ -94,7 +116,7 @@ class ElementaryRunner implements CompileOK {
         if (this.codeMap[lib]) {
           return Object.freeze(this.codeMap[lib]);
         }
-        runtime.errorHandle(`'${lib}' not found.`, 'require');
+        runtime.errorHandle(`${runtime.formatValue(lib)} not found.`, 'require', 'EJS-REQUIRE');
       }
     };
 
@@ -104,15 +126,17 @@ class ElementaryRunner implements CompileOK {
     const globalProxy = new Proxy(Object.assign({}, globals), { // prevent altering globals
       get: (o, k) => {
         if (!Object.hasOwnProperty.call(o, k)) {
-          runtime.errorHandle(`${String(k)} is not defined`, 'globalProxy');
+          runtime.errorHandle(`${runtime.formatValue(String(k))} is not defined${
+            runtime.didYouMean(String(k), Object.keys(o))}`, 'globalProxy', 'EJS-GLOBAL-UNDEFINED');
         }
         return (o as any)[k];
       },
       set: (obj, prop, value) => {
         if (globals.hasOwnProperty(prop)) { // if it's a global variable
+          const name = runtime.formatValue(String(prop));
           runtime.errorHandle(
-            `${prop as string} is part of the global library, and cannot be overwritten.`,
-            'globalProxy');
+            `${name} is part of the global library, and cannot be overwritten.`,
+            'globalProxy', 'EJS-GLOBAL-OVERWRITE');
         }
         return Reflect.set(obj, prop, value); // set value
       }
@@ -136,7 +160,8 @@ class ElementaryRunner implements CompileOK {
   }
 
   eval(code: string, onDone: (result: Result) => void) {
-    const elementary = applyElementaryJS(code, this.ejsOff);
+    // The REPL may also use the globals that the program and earlier snippets declare.
+    const elementary = applyElementaryJS(code, this.opts, Object.keys(this.g));
     if (elementary.kind === 'error') {
       return onDone({
         type: 'exception',
@@ -168,16 +193,22 @@ class ElementaryRunner implements CompileOK {
   }
 }
 
-function applyElementaryJS(code: string | Node, ejsOff: boolean):
-  CompileError | { kind: 'ok', ast: Program } {
+function applyElementaryJS(code: string | Node, opts: ResolvedOpts<Partial<CompilerOpts>>,
+  globals: string[] = knownGlobals(opts)):
+  CompileError | { kind: 'ok', ast: Program, warnings: ElementarySyntaxError[] } {
+  const warnings: ElementarySyntaxError[] = [];
   try {
     // Babylon is the parser that Babel uses internally.
     const ast = typeof code === 'string' ? babylon.parse(code).program : code,
           result1 = babel.transformFromAst(ast, typeof code === 'string' && code || undefined, {
-            plugins: [ transformArrowFunctions, [ visitor.plugin(ejsOff) ] ]
+            plugins: [
+              transformArrowFunctions,
+              [ visitor.plugin(opts.ejsOff as boolean, opts.rules, warnings, globals,
+                opts.ignoreUnused) ]
+            ]
           }),
           result2 = babel.transformFromAst(result1.ast!, result1.code!, {
-            plugins: [ transformClasses ],
+            plugins: [ transformClasses, visitor.classesPlugin ],
             code: false
           }),
           // NOTE(arjun): There is some imprecision in the type produced by Babel.
@@ -186,7 +217,8 @@ function applyElementaryJS(code: string | Node, ejsOff: boolean):
 
     return {
       ast: polyfilled,
-      kind: 'ok'
+      kind: 'ok',
+      warnings
     };
   } catch (exn) {
     if (exn instanceof visitor.State) {
@@ -194,6 +226,7 @@ function applyElementaryJS(code: string | Node, ejsOff: boolean):
     }
 
     let line: number = 0,
+        column: number = 0,
         message: string = '';
 
     if (exn instanceof SyntaxError) {
@@ -203,10 +236,12 @@ function applyElementaryJS(code: string | Node, ejsOff: boolean):
         message = exn.message;
       } else {
         line = Number(groups[2]);
+        column = Number(groups[3]);
         message = groups[1];
       }
     } else if (exn.loc && exn.loc.line) { // This can happen due to Babel.
       line = Number(exn.loc.line);
+      column = Number(exn.loc.column) || 0;
       message = exn.message;
     } else {
       message = exn.message;
@@ -214,13 +249,54 @@ function applyElementaryJS(code: string | Node, ejsOff: boolean):
 
     return {
       kind: 'error',
-      errors: [ { line, message } ]
+      // The parser only reports where an error starts.
+      errors: [ {
+        line, column, endLine: line, endColumn: column,
+        code: 'EJS-SYNTAX', severity: 'error', message
+      } ]
     };
   }
 }
 
-export function compile(code: string | Node, opts: CompilerOpts): CompileOK | CompileError {
-  const elementary = applyElementaryJS(code, opts.ejsOff as boolean);
+function overlaps(e1: TextEdit, e2: TextEdit): boolean {
+  return e1.start === e2.start || (e1.start < e2.end && e2.start < e1.end);
+}
+
+/**
+ * Applies the mechanical fixes that static checks suggest (e.g., replacing
+ * '==' with '==='). Fixes that overlap are applied in later rounds, after
+ * the code is checked again.
+ *
+ * @param {string} code
+ * @param {Partial<CompilerOpts>} opts the level and rules to check with
+ * @returns the rewritten code
+ */
+export function applyFixes(code: string, opts: Partial<CompilerOpts> = {}): string {
+  for (let round = 0; round < 10; ++round) {
+    const elementary = applyElementaryJS(code, { ...resolveLevel(opts), ejsOff: false }),
+          diagnostics = elementary.kind === 'ok' ? elementary.warnings : elementary.errors
+            .concat(elementary instanceof visitor.State ? elementary.warnings : []),
+          edits: TextEdit[] = [];
+    for (const { fix } of diagnostics) {
+      if (fix && fix.every(e1 => edits.every(e2 => !overlaps(e1, e2)))) {
+        edits.push(...fix);
+      }
+    }
+    if (edits.length === 0) {
+      break;
+    }
+    edits.sort((e1, e2) => e2.start - e1.start);
+    for (const { start, end, text } of edits) {
+      code = code.slice(0, start) + text + code.slice(end);
+    }
+  }
+  return code;
+}
+
+export function compile(code: string | Node, unresolvedOpts: CompilerOpts):
+  CompileOK | CompileError {
+  const opts = resolveLevel(unresolvedOpts),
+        elementary = applyElementaryJS(code, opts);
   if (elementary.kind === 'error') {
     return elementary;
   }
@@ -229,11 +305,19 @@ export function compile(code: string | Node, opts: CompilerOpts): CompileOK | Co
   if (stopified.kind === 'error') {
     return {
       kind: 'error',
-      errors: [ { line: 0, message: String(stopified.exception) } ]
+      errors: [ {
+        line: 0,
+        column: 0,
+        endLine: 0,
+        endColumn: 0,
+        code: 'EJS-SYNTAX',
+        severity: 'error',
+        message: String(stopified.exception)
+      } ]
     };
   }
 
-  const runner: ElementaryRunner = new ElementaryRunner(stopified, opts);
+  const runner: ElementaryRunner = new ElementaryRunner(stopified, opts, elementary.warnings);
   runner.g.$stopifyArray = function(array: any) {
     return require('@stopify/higher-order-functions/dist/ts/simpleHofPolyfill.lazy')
       .stopifyArray(array);
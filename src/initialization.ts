@@ -0,0 +1,402 @@
+/* This module checks that programs initialize 'let' and 'const' variables
+ * before they use them. It is a flow-sensitive, definite-assignment analysis
+ * of the original program, which runs before the visitor desugars anything.
+ *
+ * The analysis follows every path through the program. A variable is
+ * assigned at a program point if every path to that point assigns it. Loops
+ * can only assign more variables on later iterations, so the analysis makes
+ * one pass over each loop: it joins the paths that leave the loop (i.e., the
+ * test failing and any 'break' that targets the loop) and ignores the paths
+ * that go around again. A function may run at any time after it is created,
+ * so its body starts from what is known where the function is created (the
+ * start of the block, for a function declaration), and its assignments do
+ * not affect the enclosing code.
+ */
+import * as t from 'babel-types';
+import { Binding, NodePath } from 'babel-traverse';
+import { isLiteralTrue } from './completion';
+
+// What is known at a program point: the variables that are definitely
+// assigned. 'null' marks an unreachable point (e.g., after 'return'), where
+// every variable is assigned.
+type Flow = { assigned: Set<t.Identifier> } | null;
+
+// A statement that 'break' or 'continue' may jump out of, and what is known
+// at each jump.
+type Target = {
+  labels: string[],
+  isLoop: boolean,
+  isSwitch: boolean,
+  breaks: Flow,
+  continues: Flow
+};
+
+export function lvalIds(lval: t.Node): t.Identifier[]  {
+  if (t.isIdentifier(lval)) {
+    return [lval];
+  } else if (t.isObjectPattern(lval)) {
+    return lval.properties.map(p => lvalIds(t.isRestProperty(p) ? p.argument : p.value))
+      .reduce((arr1, arr2) => arr1.concat(arr2), []);
+  } else if (t.isArrayPattern(lval)) {
+    return lval.elements.map(e => e ? lvalIds(e) : [])
+      .reduce((arr1, arr2) => arr1.concat(arr2), []);
+  } else if (t.isAssignmentPattern(lval)) {
+    return lvalIds(lval.left);
+  } else if (t.isRestElement(lval)) {
+    return lvalIds(lval.argument);
+  } else {
+    return [];
+  }
+}
+
+function copy(flow: Flow): Flow {
+  return flow && { assigned: new Set(flow.assigned) };
+}
+
+function join(flow1: Flow, flow2: Flow): Flow {
+  if (flow1 === null || flow2 === null) {
+    return copy(flow1 || flow2);
+  }
+  return { assigned: new Set([ ...flow1.assigned ].filter(x => flow2.assigned.has(x))) };
+}
+
+// Babel registers 'let', 'const', class declarations, and catch clause
+// parameters as 'let' or 'const' bindings.
+function isTracked(binding: Binding): boolean {
+  return (binding.kind as string) === 'let' || (binding.kind as string) === 'const';
+}
+
+// Whether a variable is declared without a value and never assigned.
+function isNeverAssigned(binding: Binding): boolean {
+  const path = binding.path;
+  return path.isVariableDeclarator() && !path.node.init &&
+    !t.isForXStatement(path.parentPath.parent) && binding.constantViolations.length === 0;
+}
+
+function child(path: NodePath<t.Node>, key: string): NodePath<any> {
+  return path.get(key) as NodePath<any>;
+}
+
+function children(path: NodePath<t.Node>, key: string): NodePath<any>[] {
+  return path.get(key) as unknown as NodePath<any>[];
+}
+
+class Analysis {
+  private targets: Target[] = [];
+
+  // report is applied to each read of a variable that is not initialized,
+  // and check to each read that only the runtime can decide.
+  constructor(private report: (path: NodePath<t.Identifier>) => void,
+    private check: (path: NodePath<t.Identifier>, binding: Binding) => void) {}
+
+  public program(path: NodePath<t.Program>): void {
+    this.block(children(path, 'body'), { assigned: new Set() });
+  }
+
+  private declare(ids: t.Identifier[], flow: Flow, assigned: boolean): void {
+    if (flow === null) {
+      return;
+    }
+    for (const id of ids) {
+      assigned ? flow.assigned.add(id) : flow.assigned.delete(id);
+    }
+  }
+
+  private assign(path: NodePath<t.LVal>, flow: Flow): void {
+    for (const id of lvalIds(path.node)) {
+      const binding = path.scope.getBinding(id.name);
+      if (flow !== null && binding && isTracked(binding)) {
+        flow.assigned.add(binding.identifier);
+      }
+    }
+  }
+
+  private read(path: NodePath<t.Identifier>, flow: Flow): void {
+    const binding = path.scope.getBinding(path.node.name);
+    if (flow === null || !binding || !isTracked(binding) ||
+        flow.assigned.has(binding.identifier)) {
+      return;
+    }
+    // A function that reads a variable of an enclosing function, before the
+    // variable is initialized, may only run once the variable is initialized.
+    const captured = binding.scope.getFunctionParent() !== path.scope.getFunctionParent();
+    if (!captured || isNeverAssigned(binding)) {
+      this.report(path);
+    } else {
+      this.check(path, binding);
+    }
+  }
+
+  private target(labels: string[], isLoop: boolean, isSwitch: boolean = false): Target {
+    const target = { labels, isLoop, isSwitch, breaks: null, continues: null };
+    this.targets.push(target);
+    return target;
+  }
+
+  // Runs the statements of a block, whose declarations have not run yet. In
+  // a loop body, this forgets the variables of the previous iteration.
+  // Function declarations are hoisted, so they may run before any statement
+  // of the block.
+  private block(paths: NodePath<t.Statement>[], flow: Flow): Flow {
+    const ids: t.Identifier[] = [];
+    for (const p of paths) {
+      if (t.isVariableDeclaration(p.node) && p.node.kind !== 'var') {
+        p.node.declarations.forEach(d => ids.push(...lvalIds(d.id)));
+      } else if (t.isClassDeclaration(p.node)) {
+        ids.push(p.node.id);
+      }
+    }
+    if (flow !== null) {
+      ids.forEach(id => flow!.assigned.delete(id));
+    }
+    for (const p of paths) {
+      if (t.isFunctionDeclaration(p.node)) {
+        this.closure(p, flow);
+      }
+    }
+    for (const p of paths) {
+      flow = this.statement(p, flow);
+    }
+    return flow;
+  }
+
+  private statement(path: NodePath<t.Node>, flow: Flow, labels: string[] = []): Flow {
+    const node = path.node;
+    if (t.isBlockStatement(node)) {
+      return this.block(children(path, 'body'), flow);
+    } else if (t.isExpressionStatement(node)) {
+      return this.expression(child(path, 'expression'), flow);
+    } else if (t.isVariableDeclaration(node)) {
+      for (const d of children(path, 'declarations')) {
+        if (d.node.init) {
+          flow = this.expression(child(d, 'init'), flow);
+        }
+        this.declare(lvalIds(d.node.id), flow, Boolean(d.node.init));
+      }
+      return flow;
+    } else if (t.isFunctionDeclaration(node)) {
+      // block analyzes the function declarations in blocks.
+      if (!path.inList) {
+        this.closure(path, flow);
+      }
+      return flow;
+    } else if (t.isClassDeclaration(node)) {
+      this.declare([ node.id ], flow, true);
+      this.closure(path, flow);
+      return flow;
+    } else if (t.isIfStatement(node)) {
+      flow = this.expression(child(path, 'test'), flow);
+      const consequent = this.statement(child(path, 'consequent'), copy(flow));
+      return join(consequent, node.alternate ?
+        this.statement(child(path, 'alternate'), copy(flow)) : flow);
+    } else if (t.isWhileStatement(node)) {
+      const target = this.target(labels, true);
+      flow = this.expression(child(path, 'test'), flow);
+      this.statement(child(path, 'body'), copy(flow));
+      this.targets.pop();
+      return join(isLiteralTrue(node.test) ? null : flow, target.breaks);
+    } else if (t.isDoWhileStatement(node)) {
+      const target = this.target(labels, true),
+            body = this.statement(child(path, 'body'), flow);
+      flow = this.expression(child(path, 'test'), join(body, target.continues));
+      this.targets.pop();
+      return join(isLiteralTrue(node.test) ? null : flow, target.breaks);
+    } else if (t.isForStatement(node)) {
+      if (t.isVariableDeclaration(node.init)) {
+        flow = this.statement(child(path, 'init'), flow);
+      } else if (node.init) {
+        flow = this.expression(child(path, 'init'), flow);
+      }
+      const target = this.target(labels, true);
+      if (node.test) {
+        flow = this.expression(child(path, 'test'), flow);
+      }
+      const body = this.statement(child(path, 'body'), copy(flow));
+      if (node.update) {
+        this.expression(child(path, 'update'), join(body, target.continues));
+      }
+      this.targets.pop();
+      return join(isLiteralTrue(node.test) ? null : flow, target.breaks);
+    } else if (t.isForOfStatement(node) || t.isForInStatement(node)) {
+      flow = this.expression(child(path, 'right'), flow);
+      const target = this.target(labels, true),
+            body = copy(flow);
+      if (t.isVariableDeclaration(node.left)) {
+        this.declare(lvalIds(node.left.declarations[0].id), body, true);
+      } else {
+        this.assign(child(path, 'left'), body);
+      }
+      this.statement(child(path, 'body'), body);
+      this.targets.pop();
+      return join(flow, target.breaks);
+    } else if (t.isLabeledStatement(node)) {
+      const body = node.body;
+      labels = labels.concat([ node.label.name ]);
+      if (t.isLoop(body) || t.isSwitchStatement(body) || t.isLabeledStatement(body)) {
+        return this.statement(child(path, 'body'), flow, labels);
+      }
+      const target = this.target(labels, false);
+      flow = this.statement(child(path, 'body'), flow);
+      this.targets.pop();
+      return join(flow, target.breaks);
+    } else if (t.isBreakStatement(node) || t.isContinueStatement(node)) {
+      const isBreak = t.isBreakStatement(node),
+            label = node.label && node.label.name,
+            target = this.targets.slice().reverse().find(x => label ?
+              x.labels.includes(label) : x.isLoop || (isBreak && x.isSwitch));
+      if (target && isBreak) {
+        target.breaks = join(target.breaks, flow);
+      } else if (target) {
+        target.continues = join(target.continues, flow);
+      }
+      return null;
+    } else if (t.isReturnStatement(node) || t.isThrowStatement(node)) {
+      if (node.argument) {
+        this.expression(child(path, 'argument'), flow);
+      }
+      return null;
+    } else if (t.isSwitchStatement(node)) {
+      return this.switchStatement(path as NodePath<t.SwitchStatement>, flow, labels);
+    } else if (t.isTryStatement(node)) {
+      const block = this.statement(child(path, 'block'), copy(flow));
+      let handler: Flow = null;
+      if (node.handler) {
+        // An exception may occur before the try block assigns anything.
+        handler = copy(flow);
+        this.declare(lvalIds(node.handler.param), handler, true);
+        handler = this.statement(child(child(path, 'handler'), 'body'), handler);
+      }
+      const normal = node.handler ? join(block, handler) : block;
+      if (!node.finalizer) {
+        return normal;
+      }
+      const finalizer = this.statement(child(path, 'finalizer'), copy(flow));
+      if (normal === null || finalizer === null) {
+        return null;
+      }
+      finalizer.assigned.forEach(x => normal.assigned.add(x));
+      return normal;
+    }
+    // Other statements are errors in ElementaryJS.
+    return flow;
+  }
+
+  private switchStatement(path: NodePath<t.SwitchStatement>, flow: Flow, labels: string[]): Flow {
+    flow = this.expression(child(path, 'discriminant'), flow);
+    const target = this.target(labels, false, true),
+          cases = children(path, 'cases') as NodePath<t.SwitchCase>[];
+    // The tests run in order until one matches, so we only know what the
+    // first test assigns when a case runs. Without a default case, the
+    // switch may not run any case.
+    for (const c of cases) {
+      if (c.node.test) {
+        flow = this.expression(child(c, 'test'), flow);
+      }
+    }
+    let fallthrough: Flow = null;
+    for (const c of cases) {
+      fallthrough = this.block(children(c, 'consequent'), join(flow, fallthrough));
+    }
+    this.targets.pop();
+    return join(cases.some(c => !c.node.test) ? fallthrough : join(flow, fallthrough),
+      target.breaks);
+  }
+
+  private expression(path: NodePath<t.Node>, flow: Flow): Flow {
+    const node = path.node;
+    if (t.isIdentifier(node)) {
+      this.read(path as NodePath<t.Identifier>, flow);
+      return flow;
+    } else if (t.isAssignmentExpression(node)) {
+      const left = child(path, 'left');
+      if (t.isMemberExpression(node.left)) {
+        flow = this.expression(left, flow);
+      } else if (t.isIdentifier(node.left) && node.operator !== '=') {
+        this.read(left, flow);
+      }
+      flow = this.expression(child(path, 'right'), flow);
+      if (!t.isMemberExpression(node.left)) {
+        this.assign(left, flow);
+      }
+      return flow;
+    } else if (t.isMemberExpression(node)) {
+      flow = this.expression(child(path, 'object'), flow);
+      return node.computed ? this.expression(child(path, 'property'), flow) : flow;
+    } else if (t.isLogicalExpression(node)) {
+      // The right operand may not run.
+      flow = this.expression(child(path, 'left'), flow);
+      this.expression(child(path, 'right'), copy(flow));
+      return flow;
+    } else if (t.isConditionalExpression(node)) {
+      flow = this.expression(child(path, 'test'), flow);
+      return join(this.expression(child(path, 'consequent'), copy(flow)),
+        this.expression(child(path, 'alternate'), copy(flow)));
+    } else if (t.isFunction(node) || t.isClass(node)) {
+      this.closure(path, flow);
+      return flow;
+    } else if (t.isObjectProperty(node)) {
+      if (node.computed) {
+        flow = this.expression(child(path, 'key'), flow);
+      }
+      return this.expression(child(path, 'value'), flow);
+    }
+    // Otherwise, evaluate the subexpressions in order.
+    for (const key of (t as any).VISITOR_KEYS[node.type] as string[]) {
+      const sub = path.get(key) as NodePath<any> | NodePath<any>[];
+      for (const p of Array.isArray(sub) ? sub : [ sub ]) {
+        if (p.node) {
+          flow = this.expression(p, flow);
+        }
+      }
+    }
+    return flow;
+  }
+
+  // A function body starts from what is known where the function appears,
+  // and its assignments are not known afterwards.
+  private closure(path: NodePath<t.Node>, flow: Flow): void {
+    const targets = this.targets,
+          node = path.node;
+    this.targets = [];
+    flow = copy(flow);
+    if (t.isClass(node)) {
+      if (node.superClass) {
+        flow = this.expression(child(path, 'superClass'), flow);
+      }
+      for (const m of children(child(path, 'body'), 'body')) {
+        this.closure(m, flow);
+      }
+    } else if (t.isFunction(node)) {
+      for (const p of children(path, 'params')) {
+        if (t.isAssignmentPattern(p.node)) {
+          flow = this.expression(child(p, 'right'), flow);
+        }
+      }
+      const body = child(path, 'body');
+      t.isBlockStatement(body.node) ?
+        this.block(children(body, 'body'), flow) : this.expression(body, flow);
+    } else if (t.isClassProperty(node) && node.value) {
+      this.expression(child(path, 'value'), flow);
+    }
+    this.targets = targets;
+  }
+}
+
+/**
+ * Reports every read of a 'let' or 'const' variable that may happen before
+ * the variable is initialized. When a function reads a variable of an
+ * enclosing function that is not yet initialized where the function appears,
+ * whether the read happens first depends on when the function is called, so
+ * these reads are passed to check instead. (Unless nothing assigns the
+ * variable, and so every read happens first.)
+ *
+ * @param {NodePath<t.Program>} path the program, before desugaring
+ * @param {(path: NodePath<t.Identifier>) => void} report applied to each read
+ * @param {(path: NodePath<t.Identifier>, binding: Binding) => void} check
+ *   applied to each read that needs a dynamic check, with its binding
+ */
+export function checkInitialization(path: NodePath<t.Program>,
+  report: (path: NodePath<t.Identifier>) => void,
+  check: (path: NodePath<t.Identifier>, binding: Binding) => void): void {
+  new Analysis(report, check).program(path);
+}
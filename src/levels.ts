@@ -0,0 +1,131 @@
+// Language levels are teaching profiles. Each level bundles a set of static
+// restrictions and runtime checks, so that a course can move students from
+// one level to the next over a term. The 'full' level is the ElementaryJS
+// language with no additional restrictions.
+import { CompilerOpts, ErrorCode, LanguageLevel, RuleConfig, errorCodes } from './types';
+
+export const defaultLevel: LanguageLevel = 'full';
+
+// Checks that are off, unless a level or a rule turns them on.
+const levelRules: RuleConfig = {
+  'EJS-FOR-OF': 'off',
+  'EJS-LEVEL-ARROW': 'off',
+  'EJS-LEVEL-BITWISE': 'off',
+  'EJS-LEVEL-CLASS': 'off',
+  'EJS-OP-COMPARE-NUM': 'off',
+  'EJS-OP-NON-FINITE': 'off',
+  'EJS-OP-STRICT-EQ-TYPES': 'off'
+};
+
+const levels: { [level in LanguageLevel]: RuleConfig } = {
+  beginner: {
+    ...levelRules,
+    'EJS-FOR-OF': 'error',
+    'EJS-LEVEL-ARROW': 'error',
+    'EJS-LEVEL-BITWISE': 'error',
+    'EJS-LEVEL-CLASS': 'error',
+    'EJS-OP-COMPARE-NUM': 'error',
+    'EJS-OP-STRICT-EQ-TYPES': 'error'
+  },
+  intermediate: {
+    ...levelRules,
+    'EJS-LEVEL-BITWISE': 'error'
+  },
+  full: levelRules
+};
+
+// The dynamic checks that rules can turn on or off. A program cannot run
+// without the other dynamic checks, so rules cannot configure them. Rules
+// cannot configure syntax errors either, nor the static checks that reject
+// code that ElementaryJS cannot compile.
+const dynamicRules: ErrorCode[] = [
+  'EJS-OP-COMPARE-NUM',
+  'EJS-OP-NON-FINITE',
+  'EJS-OP-STRICT-EQ-TYPES',
+  'EJS-OP-UNARY-PLUS-STRING'
+];
+
+const fixedChecks: ErrorCode[] = [
+  'EJS-SYNTAX',
+  'EJS-DESTRUCTURING',
+  'EJS-FOR-IN',
+  'EJS-OP-DELETE',
+  'EJS-WITH',
+  'EJS-ARITY',
+  'EJS-ARRAY-CREATE',
+  'EJS-BOOL-CONDITION',
+  'EJS-BOOL-OPERAND',
+  'EJS-BUG',
+  'EJS-GLOBAL-OVERWRITE',
+  'EJS-GLOBAL-UNDEFINED',
+  'EJS-FOR-OF-VALUE',
+  'EJS-INDEX-BOUNDS',
+  'EJS-INDEX-INVALID',
+  'EJS-INDEX-NON-ARRAY',
+  'EJS-MEMBER-ARRAY-SET',
+  'EJS-MEMBER-MISSING',
+  'EJS-MEMBER-NON-OBJECT',
+  'EJS-OP-COMPARE',
+  'EJS-OP-NUM',
+  'EJS-OP-NUM-OR-STRING',
+  'EJS-OP-UNARY-NUM',
+  'EJS-OP-UPDATE-NUM',
+  'EJS-REQUIRE',
+  'EJS-SPREAD',
+  'EJS-THROW-VALUE',
+  'EJS-UNINITIALIZED-READ'
+];
+
+function checkRules(rules: RuleConfig): void {
+  for (const code of Object.keys(rules) as ErrorCode[]) {
+    const setting = rules[code];
+    if (!(errorCodes as readonly string[]).includes(code)) {
+      throw new Error(`Unknown rule '${code}'.`);
+    } else if (fixedChecks.includes(code)) {
+      throw new Error(`The rule '${code}' cannot be configured.`);
+    } else if (dynamicRules.includes(code) && setting !== 'off' && setting !== 'error') {
+      throw new Error(`The rule '${code}' is a dynamic check, so it must be 'off' or 'error'.`);
+    }
+  }
+}
+
+// Options in which resolveLevel has determined the level and the rules, and
+// compiled the pattern for names that may be unused.
+export type ResolvedOpts<T extends Partial<CompilerOpts>> =
+  Omit<T, 'ignoreUnused'> & { level: LanguageLevel, rules: RuleConfig, ignoreUnused: RegExp };
+
+function compileIgnoreUnused(pattern: string = '^_'): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (exn) {
+    throw new Error(`The ignoreUnused pattern '${pattern}' is not a valid regular expression.`);
+  }
+}
+
+function isLanguageLevel(level: any): level is LanguageLevel {
+  return Object.prototype.hasOwnProperty.call(levels, level);
+}
+
+/**
+ * Produces the options that the compiler and runtime use, by filling in the
+ * defaults of the chosen language level. Options that are set explicitly
+ * override the level, and so do individual rules. Rules may only configure the
+ * dynamic checks that are listed in dynamicRules. Throws an error if the
+ * options are not valid.
+ *
+ * @param {CompilerOpts} opts
+ * @returns opts with the level and rules fully determined
+ */
+export function resolveLevel<T extends Partial<CompilerOpts>>(opts: T): ResolvedOpts<T> {
+  const level = opts.level === undefined ? defaultLevel : opts.level;
+  if (!isLanguageLevel(level)) {
+    throw new Error(`Unknown language level '${level}'.`);
+  }
+  checkRules(opts.rules || {});
+  return {
+    ...opts,
+    level,
+    rules: { ...levels[level], ...opts.rules },
+    ignoreUnused: compileIgnoreUnused(opts.ignoreUnused)
+  };
+}
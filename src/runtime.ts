@@ -1,5 +1,5 @@
 import { EJSVERSION } from './version';
-import { TestResult } from './types';
+import { ErrorCode, Severity, SourceRange, TestResult } from './types';
 import * as stopify from '@stopify/stopify';
 
 let ejsOff: boolean = false;
@@ -8,37 +8,63 @@ export function disableEJS() { ejsOff = true; }
 export function version() { return EJSVERSION; }
 
 export class ElementaryRuntimeError extends Error {
-  constructor(message: string) {
+  public severity: Severity = 'error';
+  // The source range of the dynamic check that failed, when it is known.
+  public line?: number;
+  public column?: number;
+  public endLine?: number;
+  public endColumn?: number;
+
+  constructor(message: string, public code: ErrorCode, loc?: SourceRange) {
     super(message);
+    if (loc) {
+      this.line = loc.line;
+      this.column = loc.column;
+      this.endLine = loc.endLine;
+      this.endColumn = loc.endColumn;
+    }
   }
 }
 
-export function errorHandle(err: string, check: string, line?: number) {
+// The Error constructor of ElementaryJS programs, which is the only way to
+// build a value to throw. This is not a class, since Stopify constructs
+// objects by calling their constructor without 'new'.
+export function ElementaryError(this: any, message: string) {
+  this.message = message;
+}
+ElementaryError.prototype = Object.create(Error.prototype, {
+  constructor: { value: ElementaryError, writable: true, configurable: true }
+});
+
+export function errorHandle(err: string, check: string, code: ErrorCode, loc?: SourceRange) {
   if (!ejsOff) { // Normal EJS
-    throw new ElementaryRuntimeError(err);
+    throw new ElementaryRuntimeError(err, code, loc);
   }
   // tslint:disable-next-line:no-console
-  console.warn(`EJS RUNTIME ERROR SUPPRESSED ${check}${line ? ` at ${line}` : ''}: ${err}`);
+  console.warn(`EJS RUNTIME ERROR SUPPRESSED ${check} [${code}]${
+    loc ? ` at ${loc.line}:${loc.column}` : ''}: ${err}`);
 }
 
 export function elementaryJSBug(msg: string) {
   errorHandle(`You have encountered a potential bug in ElementaryJS.
 Please report this to the developers along with the following message:
-  ${msg}`, 'elementaryJSBug');
+  ${msg}`, 'elementaryJSBug', 'EJS-BUG');
 }
 
 class ArrayStub {
   constructor() {
     // TODO: Can this message actually be triggered?
-    errorHandle(`Use 'Array.create(length, init)'.`, 'Array constructor');
+    errorHandle(`Use 'Array.create(length, init)'.`, 'Array constructor', 'EJS-ARRAY-CREATE');
   }
 
   static create(n: any, v: any) {
     if (arguments.length !== 2) {
-      errorHandle(`'.create' expects 2 arguments, received ${arguments.length}.`, 'Array.create');
+      errorHandle(`'.create' expects 2 arguments, received ${arguments.length}.`, 'Array.create',
+        'EJS-ARRAY-CREATE');
     }
     if (!Number.isInteger(n) || n < 1) {
-      errorHandle('Array size must be a positive integer.', 'Array.create');
+      errorHandle('Array size must be a positive integer.', 'Array.create',
+        'EJS-ARRAY-CREATE');
     }
 
     const a = new Array(n);
@@ -78,6 +104,155 @@ export function stopifyObjectArrayRecur(obj: any) {
   return stopifyArray(obj); // since it's array, stopify the whole array
 }
 
+// ---------- FORMATTING VALUES ---------- //
+
+/**
+ * Formats a value for a runtime error message. Strings are quoted, functions
+ * show their name, and arrays, objects, and class instances show their
+ * members. The result is at most maxLength characters long, and cyclic
+ * values print as '[circular]'.
+ *
+ * @param {any} value the value to format
+ * @param {number} maxLength the length at which to abbreviate the result
+ * @returns the formatted value
+ */
+export function formatValue(value: any, maxLength: number = 60): string {
+  const str = formatRec(value, [], maxLength);
+  return str.length <= maxLength ? str : `${str.slice(0, maxLength - 3)}...`;
+}
+
+// Formats value, but stops adding members once the result is longer than
+// budget. The values that enclose value are in seen.
+function formatRec(value: any, seen: any[], budget: number): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\n/g, '\\n')}'`;
+  } else if (typeof value === 'function') {
+    // Stopify renames some functions (e.g., to 'fun1'), and students do not
+    // know those names.
+    return value.name && !/^(fun|funExpr)\d+$/.test(value.name) ?
+      `function ${value.name}` : 'function';
+  } else if (typeof value !== 'object' || value === null) {
+    return String(value);
+  } else if (seen.includes(value)) {
+    return '[circular]';
+  } else if (value instanceof Error) {
+    return `Error(${formatRec(value.message, seen, budget)})`;
+  } else if (budget <= 0) {
+    return '...';
+  }
+  const isArray = Array.isArray(value),
+        keys = isArray ? [] : Object.keys(value),
+        count = isArray ? value.length : keys.length,
+        members: string[] = [];
+  let length = 0;
+  for (let i = 0; i < count; ++i) {
+    const key = isArray ? i : keys[i];
+    if (length > budget) {
+      members.push('...');
+      break;
+    }
+    // Each level of nesting uses part of the budget, even if it has no
+    // members before this one.
+    const member = formatRec(value[key], seen.concat([ value ]), budget - length - 1);
+    members.push(isArray ? member : `${key}: ${member}`);
+    length += members[members.length - 1].length + 2;
+  }
+  if (isArray) {
+    return `[${members.join(', ')}]`;
+  }
+  const proto = Object.getPrototypeOf(value),
+        className = proto && proto !== Object.prototype && proto.constructor &&
+          proto.constructor.name ? `${proto.constructor.name} ` : '';
+  return members.length === 0 ? `${className}{}` : `${className}{ ${members.join(', ')} }`;
+}
+
+/**
+ * Sets the name of a function, which Stopify may have renamed.
+ *
+ * @param {(...args: any[]) => any} f the function
+ * @param {string} name the name of the function in the source code
+ */
+export function setFunctionName(f: (...args: any[]) => any, name: string): void {
+  Object.defineProperty(f, 'name', { value: name });
+}
+
+// Formats the type and an abbreviation of a value, e.g., "string 'abc'".
+function typeAndValue(value: any): string {
+  if (value === undefined || value === null || typeof value === 'function') {
+    return formatValue(value);
+  }
+  return `${Array.isArray(value) ? 'array' : typeof value} ${formatValue(value, 30)}`;
+}
+
+// Describes the arguments of a binary operator.
+function operands(lhs: any, rhs: any): string {
+  return `left is ${typeAndValue(lhs)}, right is ${typeAndValue(rhs)}`;
+}
+
+// ---------- SUGGESTIONS ---------- //
+
+// The number of single-character insertions, deletions, and substitutions
+// that turn a into b (i.e., the Levenshtein distance).
+function editDistance(a: string, b: string): number {
+  let prev: number[] = [];
+  for (let j = 0; j <= b.length; j++) {
+    prev.push(j);
+  }
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [ i ];
+    for (let j = 1; j <= b.length; j++) {
+      cur.push(Math.min(prev[j] + 1, cur[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Produces a hint for a misspelled name, e.g., "; did you mean 'length'?",
+ * using the candidate that is closest to name. Produces the empty string if
+ * no candidate is close enough to be a likely fix.
+ *
+ * @param {string} name the name that is not defined
+ * @param {string[]} candidates the names that are defined
+ * @returns the hint to append to an error message
+ */
+export function didYouMean(name: string, candidates: string[]): string {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let best: string | undefined,
+      bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    // Every one-character name is one edit away from every other, e.g., 'x' and 'y'.
+    if (candidate !== name && distance < bestDistance && distance < name.length) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best === undefined ? '' : `; did you mean '${best}'?`;
+}
+
+// The members of object, and the methods of its prototypes, except for the
+// methods of Object.prototype.
+function memberNames(object: any): string[] {
+  const names: string[] = [];
+  let o = Object(object),
+      own = true;
+  while (o !== null && o !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(o)) {
+      const desc = Object.getOwnPropertyDescriptor(o, name)!;
+      if (/^[A-Za-z_$][\w$]*$/.test(name) && name !== 'constructor' &&
+          (own || typeof desc.value === 'function')) {
+        names.push(name);
+      }
+    }
+    o = Object.getPrototypeOf(o);
+    own = false;
+  }
+  return names;
+}
+
 // ---------- DYNAMIC CHECKS ---------- //
 
 export function checkCall(object: any, field: string, args: any[]) {
@@ -92,40 +267,97 @@ export function checkCall(object: any, field: string, args: any[]) {
   elementaryJSBug(`In 'checkCall' with ${field} on ${typeof object}.`);
 }
 
-export function checkIfBoolean(value: any, operator: '||' | '&&' | undefined, line: number) {
+export function checkIfBoolean(value: any, operator: '||' | '&&' | '!' | '?:' | undefined,
+  loc: SourceRange) {
   if (typeof value !== 'boolean' && !operator) { // for the if statement
-    errorHandle(`Expected a boolean expression, instead received '${value}'.`, 'checkIfBoolean',
-      line);
+    errorHandle(`Expected a boolean expression, instead received ${formatValue(value)}.`,
+      'checkIfBoolean', 'EJS-BOOL-CONDITION', loc);
+  } else if (typeof value !== 'boolean' && operator === '?:') {
+    errorHandle(`Condition of operator '?:' must be a boolean, instead received ${
+      formatValue(value)}.`, 'checkIfBoolean', 'EJS-BOOL-CONDITION', loc);
+  } else if (typeof value !== 'boolean' && operator === '!') {
+    errorHandle(`Argument of operator '!' must be a boolean, instead received ${
+      formatValue(value)}.`, 'checkIfBoolean', 'EJS-BOOL-OPERAND', loc);
   } else if (typeof value !== 'boolean') {
     errorHandle(`Arguments of operator '${operator}' must both be booleans.`, 'checkIfBoolean',
-      line);
+      'EJS-BOOL-OPERAND', loc);
   }
   return value;
 }
 
-export function arrayBoundsCheck(object: any, index: string, line: number) {
+export function arrayBoundsCheck(object: any, index: string, loc: SourceRange) {
   if (!Array.isArray(object)) {
-    errorHandle('Array indexing called on a non-array value type.', 'arrayBoundsCheck', line);
+    errorHandle('Array indexing called on a non-array value type.', 'arrayBoundsCheck',
+      'EJS-INDEX-NON-ARRAY', loc);
   }
   if (typeof index !== 'number' || index < 0 || (index % 1) !== 0) {
-    errorHandle(`Array index '${index}' is not valid.`, 'arrayBoundsCheck', line);
+    errorHandle(`Array index ${formatValue(index)} is not valid.`, 'arrayBoundsCheck',
+      'EJS-INDEX-INVALID', loc);
   }
   if (object && index >= object.length) {
-    errorHandle(`Index '${index}' is out of array bounds.`, 'arrayBoundsCheck', line);
+    errorHandle(`Index ${formatValue(index)} is out of array bounds.`, 'arrayBoundsCheck',
+      'EJS-INDEX-BOUNDS', loc);
   }
   return object && object[index];
 }
 
-export function dot(object: any, index: string, line: number) {
+export function checkThrow(value: any, loc: SourceRange) {
+  if (!(value instanceof Error)) {
+    errorHandle(`Can only throw errors built with 'new Error(message)', instead received ${
+      formatValue(value)}.`, 'checkThrow', 'EJS-THROW-VALUE', loc);
+  }
+  return value;
+}
+
+// The value that a catch clause receives. Errors that ElementaryJS raises are
+// ElementaryRuntimeErrors, which carry their code and source range. Other
+// JavaScript errors (e.g., from calling a non-function) become Errors.
+export function caughtError(value: any) {
+  if (value instanceof ElementaryRuntimeError || value instanceof ElementaryError) {
+    return value;
+  }
+  return new (ElementaryError as any)(value instanceof Error ? value.message : String(value));
+}
+
+export function checkForOf(value: any, loc: SourceRange) {
+  if (typeof value === 'string') {
+    return Array.from(value);
+  } else if (!Array.isArray(value)) {
+    errorHandle(`For-of loops must iterate over an array or a string, instead received ${
+      formatValue(value)}.`, 'checkForOf', 'EJS-FOR-OF-VALUE', loc);
+  }
+  return value;
+}
+
+export function spreadCheck(value: any, loc: SourceRange) {
+  if (!Array.isArray(value)) {
+    errorHandle(`Spread syntax (...) must be applied to an array, instead received ${
+      formatValue(value)}.`, 'spreadCheck', 'EJS-SPREAD', loc);
+  }
+  return value;
+}
+
+// A function may read a variable before the variable is declared or assigned,
+// so we check that the variable has a value.
+export function checkAssigned(assigned: boolean, name: string, line: number, loc: SourceRange) {
+  if (!assigned) {
+    errorHandle(`You must initialize the variable '${name}' before use; it is declared on line ${
+      line}.`, 'checkAssigned', 'EJS-UNINITIALIZED-READ', loc);
+  }
+}
+
+export function dot(object: any, index: string, loc: SourceRange) {
   if (typeof object !== 'object'  &&
       typeof object !== 'string'  &&
       typeof object !== 'boolean' &&
       typeof object !== 'number'  &&
       typeof object !== 'function') {
-    errorHandle('Cannot access member of non-object value types.', 'dot', line);
+    errorHandle('Cannot access member of non-object value types.', 'dot', 'EJS-MEMBER-NON-OBJECT',
+      loc);
   }
   if (object && !object.hasOwnProperty(index) && typeof object[index] !== 'function') {
-    errorHandle(`Object does not have member '${index}'.`, 'dot', line);
+    errorHandle(`Object does not have member ${formatValue(index)}${
+      didYouMean(String(index), memberNames(object)) || '.'}`, 'dot', 'EJS-MEMBER-MISSING', loc);
   }
   if (typeof object === 'string' && index === 'split') {
     return function(sep: string) {
@@ -135,35 +367,46 @@ export function dot(object: any, index: string, line: number) {
   return object && object[index];
 }
 
-export function updateOnlyNumbers(opcode: string, object: any, line: number) {
+export function updateOnlyNumbers(opcode: string, object: any, loc: SourceRange) {
   if (typeof object !== 'number') {
-    errorHandle(`Argument of operator '${opcode}' must be a number.`, 'updateOnlyNumbers', line);
+    errorHandle(`Argument of operator '${opcode}' must be a number, instead received ${
+      typeAndValue(object)}.`, 'updateOnlyNumbers', 'EJS-OP-UPDATE-NUM', loc);
   }
 }
 
-export function checkMember(o: any, k: any, v: any, line: number) {
+export function checkMember(o: any, k: any, v: any, loc: SourceRange) {
   if (Array.isArray(o)) {
-    errorHandle(`Cannot set '.${k}' of an array.`, 'checkMember', line);
+    errorHandle(`Cannot set member ${formatValue(k)} of an array.`, 'checkMember',
+      'EJS-MEMBER-ARRAY-SET', loc);
   }
-  dot(o, k, line);
+  dot(o, k, loc);
   return o && (o[k] = v);
 }
 
-export function checkArray(o: any, k: any, v: any, line: number) {
-  arrayBoundsCheck(o, k, line);
+export function checkArray(o: any, k: any, v: any, loc: SourceRange) {
+  arrayBoundsCheck(o, k, loc);
   return o && (o[k] = v);
 }
 
-export function checkUpdateOperand(opcode: string, obj: any, member: string | number, line: number) {
+export function checkUpdateOperand(opcode: string, obj: any, member: string | number,
+  checkFinite: boolean, loc: SourceRange) {
   if (obj && !obj.hasOwnProperty(member)) {
     if (typeof member === 'number') {
-      errorHandle(`Index '${member}' is out of array bounds.`, 'checkUpdateOperand', line);
+      errorHandle(`Index ${formatValue(member)} is out of array bounds.`, 'checkUpdateOperand',
+        'EJS-INDEX-BOUNDS', loc);
     } else {
-      errorHandle(`Object does not have member '${member}'.`, 'checkUpdateOperand', line);
+      errorHandle(`Object does not have member ${formatValue(member)}${
+        didYouMean(String(member), memberNames(obj)) || '.'}`, 'checkUpdateOperand',
+        'EJS-MEMBER-MISSING', loc);
     }
   }
   if (obj && typeof obj[member] !== 'number') {
-    errorHandle(`Argument of operator '${opcode}' must be a number.`, 'checkUpdateOperand', line);
+    errorHandle(`Argument of operator '${opcode}' must be a number, instead received ${
+      typeAndValue(obj[member])}.`, 'checkUpdateOperand', 'EJS-OP-UPDATE-NUM', loc);
+  }
+  if (checkFinite && obj) {
+    finiteCheck(opcode, obj[member], 1, opcode === '++' ? obj[member] + 1 : obj[member] - 1,
+      'checkUpdateOperand', loc);
   }
   if (opcode === '++') {
     return obj && (++obj[member]);
@@ -175,26 +418,80 @@ export function checkUpdateOperand(opcode: string, obj: any, member: string | nu
   }
 }
 
-export function applyNumOrStringOp(op: string, lhs: any, rhs: any, line: number) {
+// Reports arithmetic that produces NaN or an infinite number.
+function finiteCheck(op: string, lhs: any, rhs: any, result: any, check: string,
+  loc: SourceRange) {
+  if (typeof result === 'number' && !Number.isFinite(result)) {
+    errorHandle(`Operator '${op}' produced ${result} from arguments ${formatValue(lhs)} and ${
+      formatValue(rhs)}.`, check,
+      'EJS-OP-NON-FINITE', loc);
+  }
+}
+
+export function applyNumOrStringOp(op: string, lhs: any, rhs: any, checkFinite: boolean,
+  loc: SourceRange) {
   if (!((typeof lhs === 'string' && typeof rhs === 'string') ||
       (typeof lhs === 'number' && typeof rhs === 'number'))) {
-    errorHandle(`Arguments of operator '${op}' must both be numbers or strings.`,
-      'applyNumOrStringOp', line);
+    errorHandle(`Arguments of operator '${op}' must both be numbers or strings; ${
+      operands(lhs, rhs)}.`, 'applyNumOrStringOp', 'EJS-OP-NUM-OR-STRING', loc);
+  }
+  if (op !== '+') {
+    return elementaryJSBug(`In 'applyNumOrStringOp' with '${op}'.`);
+  }
+  const result = (lhs as any) + (rhs as any);
+  if (checkFinite) {
+    finiteCheck(op, lhs, rhs, result, 'applyNumOrStringOp', loc);
+  }
+  return result;
+}
+
+export function applyNumOp(op: string, lhs: any, rhs: any, checkFinite: boolean,
+  loc: SourceRange) {
+  if (!(typeof (lhs) === 'number' && typeof (rhs) === 'number')) {
+    errorHandle(`Arguments of operator '${op}' must both be numbers; ${operands(lhs, rhs)}.`,
+      'applyNumOp', 'EJS-OP-NUM', loc);
+  }
+  const result = numOp(op, lhs, rhs);
+  if (checkFinite) {
+    finiteCheck(op, lhs, rhs, result, 'applyNumOp', loc);
+  }
+  return result;
+}
+
+// Compares two numbers or two strings. Strings may only be compared if
+// compareStrings is true.
+export function applyCompareOp(op: string, lhs: any, rhs: any, compareStrings: boolean,
+  loc: SourceRange) {
+  if (!compareStrings) {
+    if (!(typeof lhs === 'number' && typeof rhs === 'number')) {
+      errorHandle(`Arguments of operator '${op}' must both be numbers; ${operands(lhs, rhs)}.`,
+        'applyCompareOp', 'EJS-OP-COMPARE-NUM', loc);
+    }
+  } else if (!((typeof lhs === 'string' && typeof rhs === 'string') ||
+      (typeof lhs === 'number' && typeof rhs === 'number'))) {
+    errorHandle(`Arguments of operator '${op}' must both be numbers or both be strings; ${
+      operands(lhs, rhs)}.`, 'applyCompareOp', 'EJS-OP-COMPARE', loc);
   }
   switch (op) {
-    case '+': {
-      return (lhs as any) + (rhs as any);
+    case '<': {
+      return lhs < rhs;
+    } break;
+    case '<=': {
+      return lhs <= rhs;
+    } break;
+    case '>': {
+      return lhs > rhs;
+    } break;
+    case '>=': {
+      return lhs >= rhs;
     } break;
     default: {
-      elementaryJSBug(`In 'applyNumOrStringOp' with '${op}'.`);
+      return elementaryJSBug(`In 'applyCompareOp' with '${op}'.`);
     }
   }
 }
 
-export function applyNumOp(op: string, lhs: any, rhs: any, line: number) {
-  if (!(typeof (lhs) === 'number' && typeof (rhs) === 'number')) {
-    errorHandle(`Arguments of operator '${op}' must both be numbers.`, 'applyNumOp', line);
-  }
+function numOp(op: string, lhs: number, rhs: number) {
   switch (op) {
     case '-': {
       return (lhs - rhs);
@@ -205,18 +502,6 @@ export function applyNumOp(op: string, lhs: any, rhs: any, line: number) {
     case '*': {
       return (lhs * rhs);
     } break;
-    case '>': {
-      return (lhs > rhs);
-    } break;
-    case '<': {
-      return (lhs < rhs);
-    } break;
-    case '>=': {
-      return (lhs >= rhs);
-    } break;
-    case '<=': {
-      return (lhs <= rhs);
-    } break;
     case '>>': {
       return (lhs >> rhs);
     } break;
@@ -245,12 +530,55 @@ export function applyNumOp(op: string, lhs: any, rhs: any, line: number) {
   }
 }
 
-export function arityCheck(name: string, expected: number, actual: number, line: number) {
-  if (expected !== actual) {
-    const expectedStr = `${expected} argument${expected === 1 ? '' : 's'}`,
+// Reports a strict (in)equality between values of different types, which is
+// always false (or true). Either value may be undefined, e.g., to check for a
+// sentinel value.
+export function checkStrictEq(op: string, lhs: any, rhs: any, loc: SourceRange) {
+  if (lhs !== undefined && rhs !== undefined && typeof lhs !== typeof rhs) {
+    errorHandle(`Arguments of operator '${op}' have different types, ${typeof lhs} and ${
+      typeof rhs}, so the result is always ${op === '!=='}.`, 'checkStrictEq',
+      'EJS-OP-STRICT-EQ-TYPES', loc);
+  }
+  return op === '===' ? lhs === rhs : lhs !== rhs;
+}
+
+// Unary '+' may also convert a string to a number, if stringToNumber is true.
+export function applyUnaryNumOp(op: string, arg: any, stringToNumber: boolean, loc: SourceRange) {
+  if (op === '+' && typeof arg === 'string' && !stringToNumber) {
+    errorHandle(`Argument of operator '+' must be a number, instead received ${
+      typeAndValue(arg)}; use 'parseFloat' instead.`, 'applyUnaryNumOp',
+      'EJS-OP-UNARY-PLUS-STRING', loc);
+  } else if (typeof arg !== 'number' && !(op === '+' && typeof arg === 'string')) {
+    errorHandle(`Argument of operator '${op}' must be a number, instead received ${
+      typeAndValue(arg)}.`, 'applyUnaryNumOp', 'EJS-OP-UNARY-NUM', loc);
+  }
+  switch (op) {
+    case '-': {
+      return -arg;
+    } break;
+    case '+': {
+      return +arg;
+    } break;
+    case '~': {
+      return ~arg;
+    } break;
+    default: {
+      elementaryJSBug(`In 'applyUnaryNumOp' with '${op}'.`);
+      return 0;
+    }
+  }
+}
+
+// A function expects between min and max arguments. The max is null for a
+// function with a rest parameter.
+export function arityCheck(name: string, min: number, max: number | null, actual: number,
+  loc: SourceRange) {
+  if (actual < min || (max !== null && actual > max)) {
+    const expectedStr = max === null ? `at least ${min} argument${min === 1 ? '' : 's'}` :
+            min === max ? `${min} argument${min === 1 ? '' : 's'}` : `${min} to ${max} arguments`,
           actualStr = `${actual} argument${actual === 1 ? '' : 's'}`;
     errorHandle(`Function ${name} expected ${expectedStr} but received ${actualStr}.`,
-      'arityCheck', line);
+      'arityCheck', 'EJS-ARITY', loc);
   }
 }
 
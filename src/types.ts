@@ -1,10 +1,112 @@
-import { Identifier } from 'babel-types';
-
-export type ElementarySyntaxError = {
+// A span of source code. Lines are 1-based and columns are 0-based, as in Babel.
+export type SourceRange = {
   line: number,
-  message: string
+  column: number,
+  endLine: number,
+  endColumn: number
 };
 
+export type Severity = 'error' | 'warning' | 'info';
+
+// Every static and dynamic check has a stable code, so that clients can
+// filter, count, and localize diagnostics without matching on messages.
+export const errorCodes = [
+  // Reported by the parser, Babel, or Stopify.
+  'EJS-SYNTAX',
+  // Static checks (visitor.ts).
+  'EJS-ASSIGN-FORBIDDEN',
+  'EJS-ASSIGN-PATTERN',
+  'EJS-ASSIGN-UNDECLARED',
+  'EJS-CONST-ASSIGN',
+  'EJS-DESTRUCTURING',
+  'EJS-FOR-INIT',
+  'EJS-FOR-TEST',
+  'EJS-FOR-UPDATE',
+  'EJS-FOR-IN',
+  'EJS-FOR-OF',
+  'EJS-IF-BRACES',
+  'EJS-LEVEL-ARROW',
+  'EJS-LEVEL-BITWISE',
+  'EJS-LEVEL-CLASS',
+  'EJS-LOOP-BRACES',
+  'EJS-NEW-SPREAD',
+  'EJS-OBJ-DUPLICATE-KEY',
+  'EJS-OBJ-KEY',
+  'EJS-OP-ASSIGN',
+  'EJS-OP-BINARY',
+  'EJS-OP-DELETE',
+  'EJS-OP-LOOSE-EQ',
+  'EJS-OP-LOOSE-NEQ',
+  'EJS-OP-POSTFIX',
+  'EJS-RETURN-MISSING',
+  'EJS-SHADOW',
+  'EJS-SWITCH-BRACES',
+  'EJS-THROW',
+  'EJS-TRY',
+  'EJS-UNDECLARED',
+  'EJS-UNINITIALIZED',
+  'EJS-UNREACHABLE',
+  'EJS-UNUSED',
+  'EJS-VAR',
+  'EJS-WITH',
+  // Dynamic checks (runtime.ts).
+  'EJS-ARITY',
+  'EJS-ARRAY-CREATE',
+  'EJS-BOOL-CONDITION',
+  'EJS-BOOL-OPERAND',
+  'EJS-BUG',
+  'EJS-GLOBAL-OVERWRITE',
+  'EJS-GLOBAL-UNDEFINED',
+  'EJS-FOR-OF-VALUE',
+  'EJS-INDEX-BOUNDS',
+  'EJS-INDEX-INVALID',
+  'EJS-INDEX-NON-ARRAY',
+  'EJS-MEMBER-ARRAY-SET',
+  'EJS-MEMBER-MISSING',
+  'EJS-MEMBER-NON-OBJECT',
+  'EJS-OP-COMPARE',
+  'EJS-OP-COMPARE-NUM',
+  'EJS-OP-NON-FINITE',
+  'EJS-OP-NUM',
+  'EJS-OP-NUM-OR-STRING',
+  'EJS-OP-STRICT-EQ-TYPES',
+  'EJS-OP-UNARY-NUM',
+  'EJS-OP-UNARY-PLUS-STRING',
+  'EJS-OP-UPDATE-NUM',
+  'EJS-REQUIRE',
+  'EJS-SPREAD',
+  'EJS-THROW-VALUE',
+  'EJS-UNINITIALIZED-READ'
+] as const;
+
+export type ErrorCode = typeof errorCodes[number];
+
+// Replaces the source text between two character offsets.
+export type TextEdit = {
+  start: number,
+  end: number,
+  text: string
+};
+
+export type ElementarySyntaxError = SourceRange & {
+  code: ErrorCode,
+  severity: Severity,
+  message: string,
+  // Edits that repair the problem, if the repair is mechanical.
+  fix?: TextEdit[]
+};
+
+// Turns a check off, or sets the severity that a static check reports with.
+// Only static checks that report 'error' prevent a program from running.
+// Only a few dynamic checks can be configured (see levels.ts), and only to
+// 'off' or 'error'.
+export type RuleSetting = Severity | 'off';
+
+export type RuleConfig = { [code in ErrorCode]?: RuleSetting };
+
+// Named teaching profiles; see levels.ts.
+export type LanguageLevel = 'beginner' | 'intermediate' | 'full';
+
 export type CompileError = {
   kind: 'error',
   errors: ElementarySyntaxError[]
@@ -21,6 +123,8 @@ export type Result = {
 
 export type CompileOK = {
   kind: 'ok';
+  level: LanguageLevel,
+  warnings: ElementarySyntaxError[],
   g: { [key: string]: any },
   run(onDone: (result: Result) => void): void;
   eval(code: string, onDone: (result: Result) => void): void;
@@ -38,12 +142,10 @@ export type TestResult = {
 export type CompilerOpts = {
   consoleLog: (message: string) => void,
   ejsOff?: boolean,
+  // A regular expression for the names that may be declared but never used (default: '^_').
+  ignoreUnused?: string,
+  level?: LanguageLevel,
+  rules?: RuleConfig,
   version: () => void,
   whitelistCode: { [key: string]: string }
 };
-
-export type Environment = {
-  name: string,
-  I: Set<Identifier>,
-  U: Set<Identifier>
-};
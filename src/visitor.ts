@@ -9,7 +9,7 @@
  * NodeType: {
  *   enter(path, st: S): {
  *     // Implement any static checks here by adding an error message by
- *       st.elem.error(<message>);
+ *       st.elem.error(<path>, <code>, <message>);
  *     // If the node is totally crazy and will break everything else, consider
  *     // using path.skip() to give up processing this part of the AST. You
  *     // can also use path.stop() to stop all further error-checks.
@@ -24,8 +24,14 @@
  * }
  */
 import * as t from 'babel-types';
-import { NodePath } from 'babel-traverse';
-import { CompileError, ElementarySyntaxError, Environment } from './types';
+import { Binding, NodePath, Scope } from 'babel-traverse';
+import {
+  CompileError, ElementarySyntaxError, ErrorCode, RuleConfig, RuleSetting, SourceRange, TextEdit
+} from './types';
+import { completes, returnStatements } from './completion';
+import { checkInitialization, lvalIds } from './initialization';
+import { resolveLevel } from './levels';
+import { didYouMean } from './runtime';
 
 interface S { elem: State }
 
@@ -34,212 +40,135 @@ interface S { elem: State }
 // Clients of ElementaryJS only rely on the CompileError interface.
 export class State implements CompileError {
   public static ejsOff: boolean = false;
+  public static rules: RuleConfig = {};
+  // The globals that programs may use without declaring them.
+  public static globals: string[] = [];
+  // The names that may be declared without being used.
+  public static ignoreUnused: RegExp = /^_/;
 
   // Allows clients to discriminate between CompileError and CompileResult.
   public kind: 'error' = 'error';
   public inConstructor: boolean = false;
   public inConstructorStack: boolean[] = [];
+  // Scopes whose bindings we have checked; desugaring may revisit a scope.
+  public checkedScopes: Set<t.Node> = new Set();
+  // The number of required parameters of each function, which we determine
+  // before we desugar default parameters.
+  public requiredParams: Map<t.Node, number> = new Map();
+  // Reads that may happen before their variable is initialized, and the
+  // arguments of the dynamic check for each read.
+  public assignedChecks: Map<t.Node, t.Expression[]> = new Map();
+  // The flags of the checked variables that are declared without a value,
+  // which the assignments to the variables set.
+  public assignedFlags: Map<t.Node, t.Identifier> = new Map();
+  // The function declarations of each block, whose names we restore at runtime.
+  public functionDeclarations: [t.BlockStatement | t.Program, string][] = [];
+  // Non-fatal findings, which do not stop compilation.
+  public warnings: ElementarySyntaxError[] = [];
 
-  constructor(public errors: ElementarySyntaxError[]) {}
+  // The source code is empty if we are compiling an AST.
+  constructor(public errors: ElementarySyntaxError[], private code: string = '') {}
 
-  // Convenience method to add a new error
-  public error(path: NodePath<t.Node>, message: string): void {
-    this.errors.push({ line: path.node.loc.start.line, message });
+  // Whether the rules leave a check on. This is how dynamic checks are configured.
+  public static isOn(code: ErrorCode): boolean {
+    return State.rules[code] !== 'off';
   }
 
-  // Convenience: object prints reasonably for debugging the implementation of ElementaryJS.
-  public toString(): string {
-    return this.errors.length === 0 ? 'class State in ElementaryJS with no errors' :
-      this.errors.map(x => `- ${x.message} (line ${x.line})`).join('\n');
-  }
-}
-
-class EnvironmentList {
-  private list: (Environment | null)[][];
-  private rootIf: Environment[];
-  private rootSw: Environment[];
-
-  constructor(e: Environment[]) {
-    if (e.length !== 1) {
-      throw Error('EnvironmentList: Global environment must be of size 1.');
-    }
-    this.list = [e];
-    this.rootIf = [];
-    this.rootSw = [];
-  }
-
-  private peek(): number {
-    for (var i: number = this.list.length - 1;
-      i > 0 && this.list[i].every(e => !e); i--) {}
-    return i;
-  }
-
-  private pushIndex(): number {
-    for (var i: number = this.list.length - 1;
-      i > 0 && this.list[i].every(e => e); i--) {}
-    return i;
-  }
-
-  private setA(s: Set<t.Identifier>, id: t.Identifier): void {
-    if (s.has(id)) {
-      throw Error(`EnvironmentList.prototype.setA: Identifier ${id} already in ${s}.`);
-    }
-    s.add(id);
-  }
-
-  private setI(s1: Set<t.Identifier>, s2: Set<t.Identifier>): Set<t.Identifier> {
-    const i: Set<t.Identifier> = new Set();
-    for (const id of s1) {
-      if (s2.has(id)) {
-        i.add(id);
-      }
-    }
-    return i;
-  }
-
-  private setU(s1: Set<t.Identifier>, s2: Set<t.Identifier>): Set<t.Identifier> {
-    const u: Set<t.Identifier> = new Set(s1);
-    for (const id of s2) {
-      u.add(id);
-    }
-    return u;
+  // Convenience method to add a new error, unless the rules say otherwise.
+  // Returns true if the finding is an error, and so the program will not run.
+  public error(path: NodePath<t.Node>, code: ErrorCode, message: string,
+    fix?: TextEdit[]): boolean {
+    return this.report(path, code, State.rules[code] || 'error', message, fix);
   }
 
-  private squashIndex(): number {
-    return this.list[this.list.length - 1].findIndex(e => !e) < 0 ? 0 :
-      this.list[this.list.length - 1].findIndex(e => !e);
+  // Convenience method to add a new warning, unless the rules say otherwise.
+  public warning(path: NodePath<t.Node>, code: ErrorCode, message: string, fix?: TextEdit[]): void {
+    this.report(path, code, State.rules[code] || 'warning', message, fix);
   }
 
-  public addI(id: t.Identifier): void {
-    this.setA(this.peekEnvironment().I, id);
+  // The source code of a node, if it appears in the source code.
+  public source(node: t.Node): string | undefined {
+    return this.hasSource(node) ? this.code.slice(node.start, node.end) : undefined;
   }
 
-  public addU(id: t.Identifier): void {
-    this.setA(this.peekEnvironment().U, id);
-  }
-
-  public peekEnvironment(): Environment {
-    const e: (Environment | null)[] = this.list[this.peek()];
-    for (var i: number = e.length - 1; !e[i]; i--) {}
-    return e[i]!;
-  }
-
-  public pushEnvironment(name: string): void {
-    const i: number = this.pushIndex();
-    if (i && (name === 'IfStatement' || name === 'SwitchCase')) {
-      const E: (Environment | null)[] = this.list[i],
-            j: number = E.findIndex(_e => !_e),
-            e: Environment = name === 'IfStatement' ?
-              this.rootIf[this.rootIf.length - 1] : this.rootSw[this.rootSw.length - 1];
-      this.list[i][j] = {
-        name,
-        I: new Set(e.I),
-        U: new Set(e.U)
-      };
-    } else {
-      this.list.push([{
-        name,
-        I: new Set(this.peekEnvironment().I),
-        U: new Set(this.peekEnvironment().U)
-      }]);
+  // Edits that wrap statements in braces, if they appear in the source code.
+  public braces(first: t.Node, last: t.Node = first): TextEdit[] | undefined {
+    if (!this.hasSource(first) || !this.hasSource(last)) {
+      return undefined;
     }
+    return [
+      { start: first.start, end: first.start, text: '{ ' },
+      { start: last.end, end: last.end, text: ' }' }
+    ];
   }
 
-  public pushNull(e: null[], name: string): void {
-    this.list.push(e);
-    if (name === 'SwitchStatement') {
-      this.rootSw.push(this.peekEnvironment());
-    } else if (name !== 'IfStatement') {
-      this.rootIf.push(this.peekEnvironment());
+  // Edits that replace the operator of a binary expression, if it appears in the source code.
+  public operator(node: t.BinaryExpression, text: string): TextEdit[] | undefined {
+    if (!this.hasSource(node.left) || !this.hasSource(node.right)) {
+      return undefined;
     }
+    const i = this.code.indexOf(node.operator, node.left.end);
+    return i < 0 || i + node.operator.length > node.right.start ? undefined :
+      [ { start: i, end: i + node.operator.length, text } ];
   }
 
-  public popList(): void {
-    if (!this.list.pop()) {
-      throw Error('EnvironmentList.prototype.popList: Environment list is empty.');
-    } else if (!this.list.length) {
-      throw Error('EnvironmentList.prototype.popList: Popped global environment.');
-    }
+  public hasSource(node: t.Node): boolean {
+    // Generated nodes have no offsets.
+    return typeof node.start === 'number' && typeof node.end === 'number' &&
+      node.end <= this.code.length;
   }
 
-  public popRoot(isIf: boolean): void {
-    if (isIf && !this.rootIf.pop()) {
-      throw Error('EnvironmentList.prototype.popRoot: If root environment list is empty.');
-    } else if (!isIf && !this.rootSw.pop()) {
-      throw Error('EnvironmentList.prototype.popRoot: Switch root environment list is empty.');
-    }
-  }
-
-  public squash(isIf: boolean = false, name?: string): void {
-    if (this.list[this.list.length - 1].includes(null)) {
-      this.popList();
-    } else {
-      const toSquash: (Environment | null)[] = this.list.pop()!,
-            env: Environment | null = isIf ?
-              this.list[this.list.length - 1][this.squashIndex()] : this.peekEnvironment();
-
-      let iSet: Set<t.Identifier> = new Set(toSquash[0]!.I),
-          uSet: Set<t.Identifier> = new Set(toSquash[0]!.U);
-
-      if (toSquash.length > 1) {
-        for (let i = 1; i < toSquash.length; i++) {
-          iSet = this.setI(iSet, new Set(toSquash[i]!.I));
-          uSet = this.setU(uSet, new Set(toSquash[i]!.U));
-        }
-      }
-      if (env) {
-        iSet.forEach(id => {
-          if (env.I.has(id) && env.U.has(id)) {
-            throw Error('EnvironmentList.prototype.squash: ID found in both sets.');
-          }
-          if (!env.I.has(id) && !env.U.has(id)) { iSet.delete(id); }
-        });
-        uSet.forEach(id => {
-          if (env.I.has(id) && env.U.has(id)) {
-            throw Error('EnvironmentList.prototype.squash: ID found in both sets.');
-          }
-          // Checking the just the U set would be sufficient here.
-          if (!env.I.has(id) && !env.U.has(id)) { uSet.delete(id); }
-        });
-
-        env.I = iSet; env.U = uSet;
-      } else {
-        this.list[this.list.length - 1][this.squashIndex()] = {
-          name: name || '<empty>',
-          I: iSet,
-          U: uSet
-        };
-      }
+  private report(path: NodePath<t.Node>, code: ErrorCode, severity: RuleSetting,
+    message: string, fix?: TextEdit[]): boolean {
+    if (severity === 'off') {
+      return false;
     }
+    (severity === 'error' ? this.errors : this.warnings).push({
+      ...sourceRange(path.node.loc), code, severity, message, ...(fix && { fix })
+    });
+    return severity === 'error';
   }
 
-  public swap(id: t.Identifier): void {
-    const envU: Set<t.Identifier> = this.peekEnvironment().U,
-          envI: Set<t.Identifier> = this.peekEnvironment().I;
-
-    if (!envU.has(id)) { // Redundant; we check if an ID is in U before call.
-      throw Error(`EnvironmentList.prototype.swap: Identifier ${id} cannot be found in ${envU}.`);
-    } else if (envI.has(id)) {
-      throw Error(`EnvironmentList.prototype.swap: Identifier ${id} already in ${envI}.`);
-    } else {
-      envU.delete(id);
-      envI.add(id);
-    }
+  // Convenience: object prints reasonably for debugging the implementation of ElementaryJS.
+  public toString(): string {
+    return this.errors.length === 0 ? 'class State in ElementaryJS with no errors' :
+      this.errors.map(x => `- ${x.message} [${x.code}] (line ${x.line})`).join('\n');
   }
 }
 
 const assignmentOperators: string[] = ['=', '+=', '-=', '*=', '/=', '%='],
       comparisonOperators: string[] = ['===', '!=='],
-      numOperators: string[] = ['<=', '>=', '<', '>', '<<', '>>', '>>>', '-', '*', '/', '%', '&', '|', '^'],
+      relationalOperators: string[] = ['<=', '>=', '<', '>'],
+      numOperators: string[] = ['<<', '>>', '>>>', '-', '*', '/', '%', '&', '|', '^'],
       numOrStringOperators: string[] = ['+'],
-      allowedBinaryOperators: string[] = comparisonOperators.concat(numOrStringOperators, numOperators);
-let envList: EnvironmentList; // Initialized on AST entrance (i.e., Visitor.Program.enter).
+      unaryNumOperators: string[] = ['-', '+', '~'],
+      bitwiseOperators: string[] = ['<<', '>>', '>>>', '&', '|', '^', '~'],
+      allowedBinaryOperators: string[] = comparisonOperators.concat(relationalOperators,
+        numOrStringOperators, numOperators);
 
-function dynCheck(name: string, loc: t.SourceLocation, ...args: t.Expression[]): t.CallExpression {
-  args.push(t.numericLiteral(loc.start.line)); // line numb is last arg to any dyn check
+export function sourceRange(loc: t.SourceLocation): SourceRange {
+  return {
+    line: loc.start.line,
+    column: loc.start.column,
+    endLine: loc.end.line,
+    endColumn: loc.end.column
+  };
+}
+
+function dynCheck(name: string, loc: t.SourceLocation | undefined,
+  ...args: t.Expression[]): t.CallExpression {
+  // The source range is the last arg to any dyn check, e.g., { line: 1, column: 4, ... }.
+  // Generated nodes may have no location, and then the error has no range.
+  if (loc) {
+    const range = sourceRange(loc);
+    args.push(t.objectExpression(Object.keys(range).map(k =>
+      t.objectProperty(t.identifier(k), t.numericLiteral((range as any)[k])))));
+  } else {
+    args.push(t.identifier('undefined'));
+  }
   const f = t.memberExpression(t.identifier('rts'), t.identifier(name), false),
         c = t.callExpression(f, args);
-  c.loc = loc;
+  c.loc = loc!;
   return c;
 }
 
@@ -275,6 +204,33 @@ function functionBody(node: t.Function | t.Program): t.Statement[] {
   }
 }
 
+// Produces an array with the elements and the elements of the spread
+// arguments, using Array.prototype.concat instead of spread syntax. For
+// example, [a, ...b, c] => [a].concat(b, [c])
+function concatSpread(elements: (t.Expression | t.SpreadElement)[]): t.Expression {
+  const parts: t.Expression[] = [];
+  let group: t.Expression[] | undefined;
+  for (const e of elements) {
+    if (t.isSpreadElement(e)) {
+      parts.push(e.argument);
+      group = undefined;
+    } else {
+      if (group === undefined) {
+        group = [];
+        parts.push(t.arrayExpression(group));
+      }
+      group.push(e);
+    }
+  }
+  if (!t.isArrayExpression(parts[0])) {
+    parts.unshift(t.arrayExpression([]));
+  }
+  // Stopify's Array.prototype.concat takes exactly one argument.
+  return parts.slice(1).reduce((array, part) =>
+    t.callExpression(t.memberExpression(array, t.identifier('concat'), false), [ part ]),
+    parts[0]);
+}
+
 function enclosingScopeBlock(path: NodePath<t.Node>): t.Statement[] {
   const parent = path.getFunctionParent().node;
   if (t.isProgram(parent) ||
@@ -292,20 +248,187 @@ function propertyAsString(node: t.MemberExpression): t.Expression {
   return node.computed ? node.property : t.stringLiteral((node.property as t.Identifier).name);
 }
 
-function lvalIds(lval: t.LVal): t.Identifier[]  {
-  // TODO(arjun): Not exactly right, but we don't support patterns anyway
-  return lval.type === 'Identifier' ? [lval] : [];
+// The path of the identifier that introduces a binding, or the declaration itself.
+function bindingIdPath(binding: Binding): NodePath<t.Node> {
+  // The identifiers in a destructuring pattern are among its references (see isUsed).
+  const inPattern = binding.referencePaths.find(p => p.node === binding.identifier);
+  if (inPattern) {
+    return inPattern;
+  }
+  const id = binding.path.isIdentifier() ? binding.path :
+    binding.path.get('id') as NodePath<t.Node>;
+  return id && id.node ? id : binding.path;
+}
+
+function isDestructuringPattern(node: t.Node): node is t.ObjectPattern | t.ArrayPattern {
+  return t.isObjectPattern(node) || t.isArrayPattern(node);
+}
+
+// Reports the parts of a destructuring pattern that we do not support, and
+// returns true if there are none.
+function checkPattern(path: NodePath<t.Node>, st: S): boolean {
+  if (path.isObjectPattern()) {
+    return (path.get('properties') as NodePath<t.Node>[]).map(p => {
+      if (!p.isObjectProperty() || p.node.computed || !t.isIdentifier(p.node.key)) {
+        st.elem.error(p, 'EJS-DESTRUCTURING', 'Object pattern member name must be an identifier.');
+        return false;
+      }
+      return checkPattern(p.get('value') as NodePath<t.Node>, st);
+    }).every(ok => ok);
+  } else if (path.isArrayPattern()) {
+    return (path.get('elements') as NodePath<t.Node>[])
+      .map(e => e.node === null || checkPattern(e, st)).every(ok => ok);
+  } else if (path.isAssignmentPattern()) {
+    st.elem.error(path, 'EJS-DESTRUCTURING', 'Do not use default values in patterns.');
+    return false;
+  } else if (path.isRestElement()) {
+    st.elem.error(path, 'EJS-DESTRUCTURING', 'Do not use rest elements in patterns.');
+    return false;
+  }
+  return true;
+}
+
+// Desugars `pattern = value` into assignments to the identifiers (or member
+// expressions) in the pattern, with a temporary for each destructured value.
+// Since the desugared code reads members with ordinary member expressions,
+// it gets the same dynamic checks, e.g., on missing members and array bounds.
+// The temporaries are added to tmps.
+function destructure(path: NodePath<t.Node>, pattern: t.Node, value: t.Expression,
+  tmps: t.Identifier[] = []): [t.Identifier | t.MemberExpression, t.Expression][] {
+  if (!isDestructuringPattern(pattern)) {
+    return [ [ pattern as t.Identifier | t.MemberExpression, value ] ];
+  }
+  const tmp = path.scope.generateUidIdentifier('tmp'),
+        result: [t.Identifier | t.MemberExpression, t.Expression][] = [ [ tmp, value ] ];
+  tmp.loc = pattern.loc;
+  tmps.push(tmp);
+  if (t.isObjectPattern(pattern)) {
+    for (const prop of pattern.properties as t.AssignmentProperty[]) {
+      const key = t.identifier((prop.key as t.Identifier).name);
+      key.loc = prop.key.loc;
+      const member = t.memberExpression(tmp, key, false);
+      member.loc = prop.loc;
+      result.push(...destructure(path, prop.value, member, tmps));
+    }
+  } else {
+    pattern.elements.forEach((elem, i) => {
+      if (elem === null) {
+        return;
+      }
+      const object = t.identifier(tmp.name);
+      object.loc = elem.loc;
+      const member = t.memberExpression(object, t.numericLiteral(i), true);
+      member.loc = elem.loc;
+      result.push(...destructure(path, elem, member, tmps));
+    });
+  }
+  return result;
+}
+
+// Records when a binding is initialized, in a generated variable that dynamic
+// checks can read. The declaration must be a statement in a block:
+// { ... let x = e; ... } => { let _xAssigned = false; ... let x = e; _xAssigned = true; ... }
+// If the declaration has no value, the assignments to x set the flag instead.
+function assignedFlag(binding: Binding, st: S): t.Identifier | undefined {
+  const decl = binding.path.isVariableDeclarator() ? binding.path.parentPath : binding.path,
+        block = decl.parentPath;
+  if (!block.isBlockStatement() && !block.isProgram()) {
+    return undefined;
+  }
+  const flag = block.scope.generateUidIdentifier(`${binding.identifier.name}Assigned`),
+        init = t.variableDeclaration('let', [ t.variableDeclarator(flag, t.booleanLiteral(false)) ]);
+  (init as any)._generated = true;
+  init.loc = decl.node.loc;
+  if (binding.path.isVariableDeclarator() && !binding.path.node.init) {
+    st.elem.assignedFlags.set(binding.identifier, flag);
+  } else {
+    const set = t.expressionStatement(
+      t.assignmentExpression('=', t.identifier(flag.name), t.booleanLiteral(true)));
+    set.loc = decl.node.loc;
+    decl.insertAfter(set);
+  }
+  (block.get('body.0') as unknown as NodePath<t.Statement>).insertBefore(init);
+  return flag;
+}
+
+// The path of the name of a function, if it has one. The name of a function
+// expression is the name of the variable or member that it initializes.
+function functionNamePath(path: NodePath<t.Function>): NodePath<t.Identifier> | undefined {
+  const parent = path.parentPath,
+        name = path.node.id ? path.get('id') :
+          t.isClassMethod(path.node) || t.isObjectMethod(path.node) ? path.get('key') :
+          parent.isVariableDeclarator() ? parent.get('id') :
+          parent.isObjectProperty() ? parent.get('key') : undefined;
+  return name && t.isIdentifier((name as NodePath<t.Node>).node) ?
+    name as NodePath<t.Identifier> : undefined;
+}
+
+function children(path: NodePath<t.Node>, key: string): NodePath<t.Statement>[] {
+  return path.get(key) as unknown as NodePath<t.Statement>[];
+}
+
+// Reports the first statement of a block that cannot run, because the
+// statement before it does not complete. Function declarations are hoisted,
+// so they may appear after a 'return'.
+function checkReachable(paths: NodePath<t.Statement>[], st: S): void {
+  const i = paths.findIndex(p => !completes(p.node)),
+        next = paths.slice(i + 1).find(p => !p.isFunctionDeclaration());
+  if (i === -1 || next === undefined) {
+    return;
+  }
+  const jump = paths[i].node,
+        keyword = t.isReturnStatement(jump) ? 'return' : t.isThrowStatement(jump) ? 'throw' :
+          t.isBreakStatement(jump) ? 'break' : t.isContinueStatement(jump) ? 'continue' : undefined;
+  st.elem.warning(next, 'EJS-UNREACHABLE', keyword === undefined ?
+    'This code is unreachable, because the code before it never completes.' :
+    `Code after '${keyword}' is unreachable.`);
+}
+
+// Babel considers the shorthand members of an object pattern to be references
+// to the variables that they declare, so we ignore those references.
+function isUsed(binding: Binding): boolean {
+  return binding.referencePaths.some(p => p.node !== binding.identifier);
+}
+
+// Reports the bindings of a scope that the program never reads. Top-level
+// variables may be used in the REPL, so we only report top-level functions.
+// Arguments must match parameters, so we only report the parameters after the
+// last parameter that the function uses. The names in a destructuring
+// parameter are not positional, so we report each of them that is unused.
+function checkUnused(path: NodePath<t.Scopable>, st: S): void {
+  const bindings = Object.keys(path.scope.bindings).map(name => path.scope.bindings[name]),
+        lastUsedParam = Math.max(-1, ...bindings
+          .filter(b => (b.kind as string) === 'param' && isUsed(b))
+          .map(b => Number(b.path.key)));
+  for (const binding of bindings) {
+    const kind = binding.kind as string,
+          name = binding.identifier.name;
+    // Skip catch clause parameters, and the inner binding for the name of a class.
+    if (isUsed(binding) || State.ignoreUnused.test(name) ||
+        binding.path.isCatchClause() || binding.path.node === path.node ||
+        !(path.isProgram() ? [ 'hoisted' ] : [ 'var', 'let', 'const', 'hoisted', 'param' ])
+          .includes(kind) ||
+        (kind === 'param' && binding.path.isIdentifier() &&
+          Number(binding.path.key) <= lastUsedParam)) {
+      continue;
+    }
+    st.elem.warning(bindingIdPath(binding), 'EJS-UNUSED', `'${name}' is declared but never used.`);
+  }
+}
+
+// The variables that are in scope, and the globals.
+function visibleNames(scope: Scope): string[] {
+  const names: string[] = [];
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    names.push(...Object.keys(s.bindings));
+  }
+  return names.concat(State.globals);
 }
 
 const visitor = {
   Program: {
     enter(path: NodePath<t.Program>, st: S) {
-      st.elem = new State([]);
-      envList = new EnvironmentList([{
-        name: path.node.type,
-        I: new Set(),
-        U: new Set()
-      }]);
+      st.elem = new State([], (path.hub as any).file.code);
       // Insert 'use strict' if needed
       if (path.node.directives === undefined) {
         path.node.directives = [];
@@ -313,8 +436,65 @@ const visitor = {
       if (!path.node.directives.some(d => d.value.value === 'use strict')) {
         path.node.directives.push(t.directive(t.directiveLiteral('use strict')));
       }
+      const checkedReads: [NodePath<t.Identifier>, Binding][] = [];
+      checkInitialization(path, p => st.elem.error(p, 'EJS-UNINITIALIZED',
+        `You must initialize the variable '${p.node.name}' before use.`),
+        (p, binding) => checkedReads.push([ p, binding ]));
+      // A free variable that is not a global fails when it is evaluated, so we
+      // report it before desugaring introduces variables of its own. Likewise,
+      // we report unreachable code before desugaring introduces statements.
+      checkReachable(children(path, 'body'), st);
+      checkUnused(path, st);
+      path.traverse({
+        Identifier(p: NodePath<t.Identifier>) {
+          const name = p.node.name;
+          // Babel considers the labels of break and continue to be references.
+          if (p.isReferencedIdentifier() && name !== 'arguments' &&
+              !t.isBreakStatement(p.parent) && !t.isContinueStatement(p.parent) &&
+              !p.scope.hasBinding(name, true) && !State.globals.includes(name)) {
+            st.elem.error(p, 'EJS-UNDECLARED', `'${name}' is not defined${
+              didYouMean(name, visibleNames(p.scope)) || '.'}`);
+          }
+        },
+        BlockStatement(p: NodePath<t.BlockStatement>) {
+          checkReachable(children(p, 'body'), st);
+        },
+        Scopable(p: NodePath<t.Scopable>) {
+          // Some nodes share the scope of their parent (e.g., the body of a function).
+          if (p.scope.block === p.node) {
+            checkUnused(p, st);
+          }
+        },
+        Loop(p: NodePath<t.Loop>) {
+          // The body of a do-while loop runs once.
+          if ((t.isWhileStatement(p.node) || t.isForStatement(p.node)) &&
+              t.isBooleanLiteral(p.node.test, { value: false })) {
+            st.elem.warning(p.get('body') as NodePath<t.Node>, 'EJS-UNREACHABLE',
+              'The body of this loop is unreachable, because the loop test is false.');
+          }
+        }
+      });
+      const flags: Map<Binding, t.Identifier | undefined> = new Map();
+      for (const [ p, binding ] of checkedReads) {
+        if (!flags.has(binding)) {
+          flags.set(binding, assignedFlag(binding, st));
+        }
+        const flag = flags.get(binding);
+        if (flag !== undefined && p.isReferencedIdentifier()) {
+          st.elem.assignedChecks.set(p.node, [ t.identifier(flag.name), t.stringLiteral(p.node.name),
+            t.numericLiteral(binding.identifier.loc.start.line) ]);
+        }
+      }
     },
     exit(path: NodePath<t.Program>, st: S) {
+      // Stopify renames function declarations, and error messages show the
+      // names of functions, so we restore them at the start of each block:
+      // function f() { ... } => rts.setFunctionName(f, 'f'); function f() { ... }
+      for (const [ block, name ] of st.elem.functionDeclarations) {
+        block.body.unshift(t.expressionStatement(t.callExpression(
+          t.memberExpression(t.identifier('rts'), t.identifier('setFunctionName'), false),
+          [ t.identifier(name), t.stringLiteral(name) ])));
+      }
       if (path.node.body.length !== 0) {
         (path.get('body.0') as unknown as NodePath<Node>).insertBefore(
           t.variableDeclaration('var', [
@@ -335,12 +515,68 @@ const visitor = {
       }
     }
   },
+  Scopable(path: NodePath<t.Scopable>, st: S) {
+    // Some nodes share the scope of their parent (e.g., the body of a function).
+    if (path.scope.block !== path.node || !path.scope.parent ||
+        st.elem.checkedScopes.has(path.node)) {
+      return;
+    }
+    st.elem.checkedScopes.add(path.node);
+    for (const name of Object.keys(path.scope.bindings)) {
+      const binding = path.scope.bindings[name];
+      // Skip generated bindings, and the inner binding for the name of a class.
+      if ((binding.path.parent as any)._generated || binding.path.node === path.node ||
+          !path.scope.parent.getBinding(name)) {
+        continue;
+      }
+      st.elem.warning(bindingIdPath(binding), 'EJS-SHADOW',
+        `'${name}' shadows a variable of the same name in an enclosing scope.`);
+    }
+  },
   Function: {
     enter(path: NodePath<t.Function>, st: S) {
-      if (path.node.params.length &&
-          t.isRestElement(path.node.params[path.node.params.length - 1])) {
-        st.elem.error(path, 'The rest parameter is not supported.');
+      // The parameters before the first default or rest parameter are required.
+      const optional = path.node.params.findIndex(p =>
+        t.isAssignmentPattern(p) || t.isRestElement(p));
+      st.elem.requiredParams.set(path.node, optional === -1 ? path.node.params.length : optional);
+      // A function that returns a value on some path must return a value on
+      // every path, and not reach the end of its body.
+      const returns = returnStatements(path.node);
+      if (returns.some(r => r.argument !== null) &&
+          (returns.some(r => r.argument === null) || completes(path.node.body))) {
+        const name = functionNamePath(path);
+        st.elem.error(name || path, 'EJS-RETURN-MISSING', `function ${
+          name ? `'${name.node.name}' ` : ''}does not return a value on every path.`);
       }
+      // function f(x = e) { ... } => function f(x) { if (x === void 0) { x = e; } ... }
+      // function f({ x, y }) { ... } => function f(_arg) { let { x, y } = _arg; ... }
+      // The declaration reuses the identifiers in the pattern, so that they
+      // remain the binding identifiers of the parameters.
+      const stmts: t.Statement[] = [];
+      (path.get('params') as NodePath<t.Node>[]).forEach((param, i) => {
+        const lval = param.isAssignmentPattern() ? param.get('left') as NodePath<t.Node> : param;
+        let id = lval.node;
+        if (isDestructuringPattern(lval.node) && checkPattern(lval, st)) {
+          id = path.scope.generateUidIdentifier('arg');
+        }
+        if (t.isAssignmentPattern(param.node) && t.isIdentifier(id)) {
+          const assign = t.assignmentExpression('=', t.identifier(id.name), param.node.right),
+                test = t.binaryExpression('===', t.identifier(id.name),
+                  t.unaryExpression('void', t.numericLiteral(0)));
+          const stmt = t.ifStatement(test, t.blockStatement([ t.expressionStatement(assign) ]));
+          assign.loc = test.loc = stmt.loc = param.node.loc;
+          stmts.push(stmt);
+        }
+        if (id !== lval.node) {
+          const decl = t.variableDeclaration('let', [
+            t.variableDeclarator(lval.node as t.LVal, t.identifier((id as t.Identifier).name))
+          ]);
+          decl.loc = decl.declarations[0].loc = lval.node.loc;
+          stmts.push(decl);
+        }
+        path.node.params[i] = id as t.LVal;
+      });
+      functionBody(path.node).unshift(...stmts);
       const inCtor = path.node.type === 'ClassMethod' && path.node.kind === 'constructor';
       st.elem.inConstructorStack.push(st.elem.inConstructor);
       st.elem.inConstructor = inCtor;
@@ -358,30 +594,90 @@ const visitor = {
         (path.node as any).shadow = undefined; // therefore this is set to undefined
       }
 
-      // Inserts the expression `dynCheck(N, arguments.length, name)` at the
-      // top of the function, where N is the number of declared arguments
-      // and name is the name of the function or '(anonymous').
+      // Inserts the expression `dynCheck(name, min, max, arguments.length)` at
+      // the top of the function, where min is the number of required
+      // arguments, max is the number of declared arguments (or null if there
+      // is a rest parameter), and name is the name of the function or
+      // '(anonymous').
       const body = functionBody(path.node),
             id = path.node.id,
-            expected = t.numericLiteral(path.node.params.length),
+            params = path.node.params,
+            rest = params.length > 0 && t.isRestElement(params[params.length - 1]),
+            min = t.numericLiteral(st.elem.requiredParams.get(path.node)!),
+            max = rest ? t.nullLiteral() : t.numericLiteral(params.length),
             actual = t.memberExpression(t.identifier('arguments'), t.identifier('length'), false),
             name = t.stringLiteral(id ? id.name : '(anonymous)');
       body.unshift(t.expressionStatement(
-        dynCheck('arityCheck', path.node.loc, name, expected, actual)));
+        dynCheck('arityCheck', path.node.loc, name, min, max, actual)));
+      if (id && t.isFunctionDeclaration(path.node) &&
+          (t.isBlockStatement(path.parent) || t.isProgram(path.parent))) {
+        st.elem.functionDeclarations.push([ path.parent, id.name ]);
+      }
       path.skip();
     },
   },
   VariableDeclarator(path: NodePath<t.VariableDeclarator>, st: S) {
     if (path.node.id.type !== 'Identifier') {
-      st.elem.error(path, 'Do not use destructuring patterns.');
-      return;
+      // VariableDeclaration desugars (or reports) patterns that have initializers.
+      if (!path.node.init) {
+        st.elem.error(path, 'EJS-DESTRUCTURING', 'Do not use destructuring patterns.');
+      }
+    }
+  },
+  SpreadElement: {
+    exit(path: NodePath<t.SpreadElement>) {
+      // [...e] => [...rts.spreadCheck(e)], and similarly for f(...e). The
+      // enclosing array or call then desugars the spread.
+      path.node.argument = dynCheck('spreadCheck', path.node.loc, path.node.argument);
+    }
+  },
+  ArrayExpression: {
+    exit(path: NodePath<t.ArrayExpression>) {
+      if (path.node.elements.some(e => t.isSpreadElement(e))) {
+        const replacement = concatSpread(path.node.elements as (t.Expression | t.SpreadElement)[]);
+        replacement.loc = path.node.loc;
+        path.replaceWith(replacement);
+        path.skip();
+      }
+    }
+  },
+  NewExpression(path: NodePath<t.NewExpression>, st: S) {
+    if (path.node.arguments.some(e => t.isSpreadElement(e))) {
+      st.elem.error(path, 'EJS-NEW-SPREAD', `Do not use spread syntax (...) with 'new'.`);
     }
-    // NOTE(joseph): Here we have: (getOwnBindingIdentifier === getBindingIdentifier === path.node.id).
-    t.isExpression(path.node.init) ? envList.addI(path.node.id) : envList.addU(path.node.id);
   },
   CallExpression: {
     exit(path: NodePath<t.CallExpression>) {
       const callee = path.node.callee;
+      if (t.isSuper(callee) || t.isMemberExpression(callee) && t.isSuper(callee.object)) {
+        // classesPlugin desugars spread syntax in these calls, after the
+        // classes transform replaces 'super'.
+        return;
+      } else if (path.node.arguments.some(e => t.isSpreadElement(e))) {
+        // f(a, ...b) => f.apply(undefined, [a].concat(b)), and
+        // o.m(a, ...b) => (_obj = o, _obj.m).apply(_obj, [a].concat(b))
+        let f: t.Expression = callee,
+            thisArg: t.Expression = t.identifier('undefined');
+        if (t.isMemberExpression(callee)) {
+          const obj = path.scope.generateUidIdentifier('obj'),
+                objRef = t.identifier(obj.name),
+                prop = callee.property;
+          enclosingScopeBlock(path).push(t.variableDeclaration('var', [ t.variableDeclarator(obj) ]));
+          objRef.loc = callee.object.loc;
+          f = t.sequenceExpression([
+            t.assignmentExpression('=', obj, callee.object),
+            callee.computed ? dynCheck('arrayBoundsCheck', objRef.loc, objRef, prop) :
+              dynCheck('dot', prop.loc, objRef, t.stringLiteral((prop as t.Identifier).name))
+          ]);
+          thisArg = t.identifier(obj.name);
+        }
+        const replacement = t.callExpression(t.memberExpression(f, t.identifier('apply'), false),
+          [ thisArg, concatSpread(path.node.arguments) ]);
+        replacement.loc = path.node.loc;
+        path.replaceWith(replacement);
+        path.skip();
+        return;
+      }
       if (!t.isMemberExpression(callee) || callee.computed || !t.isIdentifier(callee.property)) {
         return;
       }
@@ -397,15 +693,22 @@ const visitor = {
       }
     }
   },
+  ArrowFunctionExpression(path: NodePath<t.ArrowFunctionExpression>, st: S) {
+    st.elem.error(path, 'EJS-LEVEL-ARROW',
+      'Arrow functions are not available at this language level.');
+  },
+  Class(path: NodePath<t.Class>, st: S) {
+    st.elem.error(path, 'EJS-LEVEL-CLASS', 'Classes are not available at this language level.');
+  },
   ObjectExpression(path: NodePath<t.ObjectExpression>, st: S) {
     const propertyNames = new Set();
     for (let i = 0; i < path.node.properties.length; ++i) {
       const prop = path.node.properties[i];
       if (t.isObjectProperty(prop)) {
         if (!t.isIdentifier(prop.key)) {
-          st.elem.error(path, 'Object member name must be an identifier.');
+          st.elem.error(path, 'EJS-OBJ-KEY', 'Object member name must be an identifier.');
         } else {
-          propertyNames.has(prop.key.name) ? st.elem.error(path,
+          propertyNames.has(prop.key.name) ? st.elem.error(path, 'EJS-OBJ-DUPLICATE-KEY',
             `Object member name may only be used once; '${prop.key.name}'.`) :
             propertyNames.add(prop.key.name);
         }
@@ -448,22 +751,39 @@ const visitor = {
     enter(path: NodePath<t.AssignmentExpression>, st: S) {
       const { operator: op, left, right } = path.node;
       if (t.isIdentifier(left) && !path.scope.hasBinding(left.name)) {
-        st.elem.error(path,
+        st.elem.error(path, 'EJS-ASSIGN-UNDECLARED',
           `You must declare variable '${left.name}' before assigning a value to it.`);
       }
       if (!assignmentOperators.includes(op)) {
-        st.elem.error(path, `Do not use the '${op}' operator.`);
+        st.elem.error(path, 'EJS-OP-ASSIGN', `Do not use the '${op}' operator.`);
       }
-      if (!t.isIdentifier(left) && !t.isMemberExpression(left)) {
-        st.elem.error(path, 'Do not use patterns.');
+      if (!t.isIdentifier(left) && !t.isMemberExpression(left) &&
+          (op !== '=' || !isDestructuringPattern(left))) {
+        st.elem.error(path, 'EJS-ASSIGN-PATTERN', 'Do not use patterns.');
         return;
-      } else if (t.isLogicalExpression(path.parent)
+      } else if ((t.isLogicalExpression(path.parent)
         || t.isBinaryExpression(path.parent) || t.isUnaryExpression(path.parent)
         || t.isConditionalExpression(path.parent) || t.isIfStatement(path.parent)
         // Since we require braces, the following checks are sufficient.
         || t.isWhileStatement(path.parent) || t.isDoWhileStatement(path.parent)
-        || t.isSwitchStatement(path.parent) || t.isSwitchCase(path.parent)) {
-        st.elem.error(path, 'Forbidden assignment expression.');
+        || t.isSwitchStatement(path.parent) || t.isSwitchCase(path.parent)) &&
+        // If the rules allow the assignment, we desugar it like any other.
+        st.elem.error(path, 'EJS-ASSIGN-FORBIDDEN', 'Forbidden assignment expression.')) {
+        return;
+      } else if (isDestructuringPattern(left)) {
+        // [a, b] = e => (tmp = e, a = tmp[0], b = tmp[1], tmp)
+        if (checkPattern(path.get('left') as NodePath<t.Node>, st)) {
+          const tmps: t.Identifier[] = [],
+                assignments = destructure(path, left, right, tmps).map(([ l, r ]) => {
+                  const a = t.assignmentExpression('=', l, r);
+                  a.loc = l.loc;
+                  return a;
+                });
+          enclosingScopeBlock(path).push(t.variableDeclaration('var',
+            tmps.map(x => t.variableDeclarator(t.identifier(x.name)))));
+          path.replaceWith(t.sequenceExpression([
+            ...assignments, t.identifier(tmps[0].name) ]));
+        }
         return;
       } else if (op === '=') {
         return; // Desugar everything that is not '='
@@ -471,9 +791,6 @@ const visitor = {
 
       // We have to manually assign the `loc` obj for potential future dyn checks.
       if (t.isIdentifier(left)) {
-        if (envList.peekEnvironment().U.has(path.scope.getBindingIdentifier(left.name))) {
-          st.elem.error(path, `You must initialize the variable '${left.name}' before use.`);
-        }
         const a = t.assignmentExpression('=', left,
                     t.binaryExpression(unassign(op), left, right));
         a.right.loc = right.loc;
@@ -502,8 +819,15 @@ const visitor = {
       } else if (!t.isIdentifier(left) && !t.isMemberExpression(left)) {
         throw Error('Syntactic check error.');
       } else if (t.isIdentifier(left)) {
-        if (envList.peekEnvironment().U.has(path.scope.getBindingIdentifier(left.name))) {
-          envList.swap(path.scope.getBindingIdentifier(left.name));
+        const binding = path.scope.getBinding(left.name),
+              flag = binding && st.elem.assignedFlags.get(binding.identifier);
+        if (flag) {
+          // x = e => (x = e, _xAssigned = true, x)
+          const x = t.identifier(left.name);
+          x.loc = left.loc;
+          path.replaceWith(t.sequenceExpression([ path.node,
+            t.assignmentExpression('=', t.identifier(flag.name), t.booleanLiteral(true)), x ]));
+          path.skip();
         }
         return;
       } else if (st.elem.inConstructor && left.object.type === 'ThisExpression') {
@@ -535,28 +859,55 @@ const visitor = {
     enter(path: NodePath<t.BinaryExpression>, st: S) {
       const op = path.node.operator;
       if (op === '==') {
-        st.elem.error(path, `Do not use the '==' operator; use '===' instead.`);
+        st.elem.error(path, 'EJS-OP-LOOSE-EQ', `Do not use the '==' operator; use '===' instead.`,
+          st.elem.operator(path.node, '==='));
       } else if (op === '!=') {
-        st.elem.error(path, `Do not use the '!=' operator; use '!==' instead.`);
+        st.elem.error(path, 'EJS-OP-LOOSE-NEQ', `Do not use the '!=' operator; use '!==' instead.`,
+          st.elem.operator(path.node, '!=='));
       } else if (!(allowedBinaryOperators.includes(op))) {
-        st.elem.error(path, `Do not use the '${op}' operator.`);
+        st.elem.error(path, 'EJS-OP-BINARY', `Do not use the '${op}' operator.`);
+      } else if (bitwiseOperators.includes(op)) {
+        st.elem.error(path, 'EJS-LEVEL-BITWISE',
+          `The '${op}' operator is not available at this language level.`);
       }
     },
     exit(path: NodePath<t.BinaryExpression>, st: S) {
       // Original: a <op> b
+      // The rule 'EJS-OP-NON-FINITE' turns on checks for NaN and Infinity.
       const op = path.node.operator,
-            opName = t.stringLiteral(op);
+            opName = t.stringLiteral(op),
+            checkFinite = t.booleanLiteral(State.isOn('EJS-OP-NON-FINITE'));
       if (numOrStringOperators.includes(op)) {
-        // Transformed: applyNumOrStringOp('+', a, b);
+        // Transformed: applyNumOrStringOp('+', a, b, checkFinite);
         path.replaceWith(dynCheck('applyNumOrStringOp',
           path.node.loc,
           opName,
           path.node.left,
-          path.node.right));
+          path.node.right,
+          checkFinite));
         path.skip();
       } else if (numOperators.includes(op)) {
-        // Transformed: applyNumOp('*', a, b);
+        // Transformed: applyNumOp('*', a, b, checkFinite);
         path.replaceWith(dynCheck('applyNumOp',
+          path.node.loc,
+          opName,
+          path.node.left,
+          path.node.right,
+          checkFinite));
+        path.skip();
+      } else if (relationalOperators.includes(op)) {
+        // Transformed: applyCompareOp('<', a, b, compareStrings);
+        // The rule 'EJS-OP-COMPARE-NUM' restricts comparisons to numbers.
+        path.replaceWith(dynCheck('applyCompareOp',
+          path.node.loc,
+          opName,
+          path.node.left,
+          path.node.right,
+          t.booleanLiteral(!State.isOn('EJS-OP-COMPARE-NUM'))));
+        path.skip();
+      } else if (comparisonOperators.includes(op) && State.isOn('EJS-OP-STRICT-EQ-TYPES')) {
+        // Transformed: checkStrictEq('===', a, b);
+        path.replaceWith(dynCheck('checkStrictEq',
           path.node.loc,
           opName,
           path.node.left,
@@ -565,15 +916,50 @@ const visitor = {
       }
     }
   },
-  UnaryExpression(path: NodePath<t.UnaryExpression>, st: S) {
-    if (path.node.operator === 'delete') {
-      st.elem.error(path, `Do not use the 'delete' operator.`);
+  UnaryExpression: {
+    enter(path: NodePath<t.UnaryExpression>, st: S) {
+      if (path.node.operator === 'delete') {
+        st.elem.error(path, 'EJS-OP-DELETE', `Do not use the 'delete' operator.`);
+      } else if (bitwiseOperators.includes(path.node.operator)) {
+        st.elem.error(path, 'EJS-LEVEL-BITWISE',
+          `The '${path.node.operator}' operator is not available at this language level.`);
+      }
+    },
+    exit(path: NodePath<t.UnaryExpression>) {
+      const op = path.node.operator;
+      if (op === '!') {
+        // !a => !checkIfBoolean(a, '!')
+        path.node.argument = dynCheck('checkIfBoolean', path.node.loc, path.node.argument,
+          t.stringLiteral('!'));
+      } else if (unaryNumOperators.includes(op) && !t.isNumericLiteral(path.node.argument)) {
+        // -a => applyUnaryNumOp('-', a, false). Turning off the rule
+        // 'EJS-OP-UNARY-PLUS-STRING' lets '+' convert strings to numbers.
+        const stringToNumber = op === '+' && !State.isOn('EJS-OP-UNARY-PLUS-STRING');
+        path.replaceWith(dynCheck('applyUnaryNumOp', path.node.loc, t.stringLiteral(op),
+          path.node.argument, t.booleanLiteral(stringToNumber)));
+        path.skip();
+      }
+    }
+  },
+  ConditionalExpression: {
+    exit(path: NodePath<t.ConditionalExpression>) {
+      // a ? b : c => checkIfBoolean(a, '?:') ? b : c
+      path.node.test = dynCheck('checkIfBoolean', path.node.test.loc, path.node.test,
+        t.stringLiteral('?:'));
     }
   },
   UpdateExpression: {
     enter(path: NodePath<t.UpdateExpression>, st: S) {
       if (path.node.prefix === false) {
-        st.elem.error(path, 'Do not use post-increment or post-decrement operators.');
+        // Only rewrite x++ to ++x when the result is unused.
+        const arg = st.elem.source(path.node.argument),
+              unused = t.isExpressionStatement(path.parent) ||
+                (t.isForStatement(path.parent) && path.parent.update === path.node);
+        st.elem.error(path, 'EJS-OP-POSTFIX',
+          'Do not use post-increment or post-decrement operators.',
+          arg !== undefined && unused ? [ {
+            start: path.node.start, end: path.node.end, text: path.node.operator + arg
+          } ] : undefined);
       }
     },
     exit(path: NodePath<t.UpdateExpression>, st: S) {
@@ -593,7 +979,8 @@ const visitor = {
           path.node.loc,
           opName,
           a.object,
-          propertyAsString(a)));
+          propertyAsString(a),
+          t.booleanLiteral(State.isOn('EJS-OP-NON-FINITE'))));
       }
       path.skip();
     }
@@ -605,33 +992,42 @@ const visitor = {
       return;
     }
 
-    if (path.node.name === 'Array') {
+    const assignedCheck = st.elem.assignedChecks.get(path.node);
+    if (assignedCheck !== undefined) {
+      // x => (checkAssigned(_xAssigned, 'x', line), x)
+      const x = t.identifier(path.node.name),
+            seq = t.sequenceExpression([
+              dynCheck('checkAssigned', path.node.loc, ...assignedCheck), x ]);
+      x.loc = seq.loc = path.node.loc;
+      path.replaceWith(seq);
+      path.skip();
+    } else if (path.node.name === 'Array') {
       path.replaceWith(t.memberExpression(t.identifier('rts'), path.node, false));
       path.skip();
-    } else if (envList.peekEnvironment().U.has(path.scope.getBindingIdentifier(path.node.name))) {
-      st.elem.error(path, `You must initialize the variable '${path.node.name}' before use.`);
     }
   },
   ForStatement: {
     enter(path: NodePath<t.ForStatement>, st: S) {
       if (path.node.init === null) {
-        st.elem.error(path, 'For statement variable initialization must be present.');
+        st.elem.error(path, 'EJS-FOR-INIT',
+          'For statement variable initialization must be present.');
       }
       if (path.node.init !== null &&
           !t.isAssignmentExpression(path.node.init) &&
           !t.isVariableDeclaration(path.node.init)) {
-        st.elem.error(path,
+        st.elem.error(path, 'EJS-FOR-INIT',
           'For statement variable initialization must be an assignment or a variable declaration.');
       }
       if (path.node.test === null || t.isAssignmentExpression(path.node.test)) {
-        st.elem.error(path,
+        st.elem.error(path, 'EJS-FOR-TEST',
           'For statement termination test must be present and cannot be an assignment expression.');
       }
       if (path.node.update === null) {
-        st.elem.error(path, 'For statement update expression must be present.');
+        st.elem.error(path, 'EJS-FOR-UPDATE', 'For statement update expression must be present.');
       }
       if (!t.isBlockStatement(path.node.body)) {
-        st.elem.error(path, 'Loop body must be enclosed in braces.');
+        st.elem.error(path, 'EJS-LOOP-BRACES', 'Loop body must be enclosed in braces.',
+          st.elem.braces(path.node.body));
       }
     },
     exit(path: NodePath<t.ForStatement>, st: S) {
@@ -648,7 +1044,8 @@ const visitor = {
   WhileStatement: {
     enter(path: NodePath<t.WhileStatement>, st: S) {
       if (!t.isBlockStatement(path.node.body)) {
-        st.elem.error(path, 'Loop body must be enclosed in braces.');
+        st.elem.error(path, 'EJS-LOOP-BRACES', 'Loop body must be enclosed in braces.',
+          st.elem.braces(path.node.body));
       }
     },
     exit(path: NodePath<t.WhileStatement>, st: S) {
@@ -664,7 +1061,8 @@ const visitor = {
   DoWhileStatement: {
     enter(path: NodePath<t.DoWhileStatement>, st: S) {
       if (!t.isBlockStatement(path.node.body)) {
-        st.elem.error(path, 'Loop body must be enclosed in braces.');
+        st.elem.error(path, 'EJS-LOOP-BRACES', 'Loop body must be enclosed in braces.',
+          st.elem.braces(path.node.body));
       }
     },
     exit(path: NodePath<t.WhileStatement>, st: S) {
@@ -681,28 +1079,19 @@ const visitor = {
     enter(path: NodePath<t.IfStatement>, st: S) {
       if (!t.isBlockStatement(path.node.consequent) || path.node.alternate &&
           !t.isBlockStatement(path.node.alternate) && !t.isIfStatement(path.node.alternate)) {
-        st.elem.error(path, 'All branches of an if-statement must be enclosed in braces.');
-        path.skip();
-      }
-      /*
-        Yes, this else-if is very bad.
-        However, `path.skip` in the exit node is not working as intended.
-        This was first seen in the fix for #171.
-        Needs more investigation...
-      */
-      else if (!t.isCallExpression(path.node.test) ||
-          !t.isMemberExpression(path.node.test.callee) ||
-          !t.isIdentifier(path.node.test.callee.object) ||
-          !t.isIdentifier(path.node.test.callee.property) ||
-          path.node.test.callee.object.name !== 'rts' ||
-          path.node.test.callee.property.name !== 'checkIfBoolean') {
-        envList.pushNull([null, null], path.parent.type);
+        const { consequent, alternate } = path.node,
+              fix = t.isBlockStatement(consequent) ? [] : st.elem.braces(consequent),
+              altFix = !alternate || t.isBlockStatement(alternate) || t.isIfStatement(alternate) ?
+                [] : st.elem.braces(alternate);
+        // The exit handler adds the braces, if the rules allow the program to run.
+        if (st.elem.error(path, 'EJS-IF-BRACES',
+            'All branches of an if-statement must be enclosed in braces.',
+            fix && altFix && fix.concat(altFix))) {
+          path.skip();
+        }
       }
     },
     exit(path: NodePath<t.IfStatement>, st: S) {
-      path.node.alternate ? (t.isIfStatement(path.parent) ? envList.squash(true) :
-        envList.squash()) : envList.popList();
-      !t.isIfStatement(path.parent) && envList.popRoot(true);
       // if (a) => if (checkIfBoolean(a))
       const check = dynCheck('checkIfBoolean', path.node.loc, path.node.test, t.nullLiteral()),
             consequent = t.isBlockStatement(path.node.consequent) ?
@@ -722,7 +1111,10 @@ const visitor = {
       return;
     }
     if (path.node.kind !== 'let' && path.node.kind !== 'const') {
-      st.elem.error(path, `Use 'let' or 'const' to declare a variable.`);
+      st.elem.error(path, 'EJS-VAR', `Use 'let' or 'const' to declare a variable.`,
+        path.node.kind === 'var' && st.elem.hasSource(path.node) ? [ {
+          start: path.node.start, end: path.node.start + 3, text: 'let'
+        } ] : undefined);
     }
     if (path.node.kind === 'const') {
       const names = path.node.declarations
@@ -731,64 +1123,168 @@ const visitor = {
       for (const x of names) {
         const violations = path.scope.bindings[x.name].constantViolations;
         if (violations.length > 0) {
-          st.elem.error(violations[0], `Variable is 'const'.`);
+          st.elem.error(violations[0], 'EJS-CONST-ASSIGN', `Variable is 'const'.`);
         }
       }
     }
-  },
-  BlockStatement: {
-    enter(path: NodePath<t.BlockStatement>, st: S) {
-      envList.pushEnvironment(path.parent.type);
-    },
-    exit(path: NodePath<t.BlockStatement>, st: S) {
-      if (t.isProgram(path.parent) || t.isBlockStatement(path.parent) ||
-          t.isDoWhileStatement(path.parent)) {
-        envList.squash();
-      } else if (!t.isSwitchCase(path.parent) && !t.isIfStatement(path.parent)) {
-        envList.popList();
+    // let { x, y: [ z ] } = e => let _tmp = e, x = _tmp.x, _tmp2 = _tmp.y, z = _tmp2[0]
+    const declarations: t.VariableDeclarator[] = [];
+    (path.get('declarations') as NodePath<t.VariableDeclarator>[]).forEach(d => {
+      const id = d.get('id') as NodePath<t.Node>, init = d.node.init;
+      if (!init || !isDestructuringPattern(id.node) || !checkPattern(id, st)) {
+        declarations.push(d.node);
+        return;
       }
-    }
-  },
-  SwitchStatement: {
-    enter(path: NodePath<t.SwitchStatement>, st: S) {
-      envList.pushNull((new Array(path.node.cases.filter(c =>
-        c.consequent.length).length)).fill(null), path.node.type);
-    },
-    exit(path: NodePath<t.SwitchStatement>, st: S) {
-      path.node.cases.some(c => !c.test) ? envList.squash() : envList.popList();
-      envList.popRoot(false);
-    }
+      for (const [ x, e ] of destructure(path, id.node, init)) {
+        const decl = t.variableDeclarator(x, e);
+        decl.loc = x.loc;
+        declarations.push(decl);
+      }
+    });
+    path.node.declarations = declarations;
   },
   SwitchCase(path: NodePath<t.SwitchCase>, st: S) {
     if (path.node.consequent.length > 1 || path.node.consequent.length === 1 &&
         !t.isBlockStatement(path.node.consequent[0])) {
-      st.elem.error(path, 'If a switch case is not empty then it must be in braces.');
+      const c = path.node.consequent;
+      st.elem.error(path, 'EJS-SWITCH-BRACES',
+        'If a switch case is not empty then it must be in braces.',
+        st.elem.braces(c[0], c[c.length - 1]));
     }
   },
+  // try-catch and throw are errors unless a program opts in by turning off
+  // the 'EJS-TRY' and 'EJS-THROW' rules.
   TryStatement(path: NodePath<t.TryStatement>, st: S) {
-    st.elem.error(path, 'The try-catch statement is not supported.');
-    path.skip();
+    st.elem.error(path, 'EJS-TRY', 'The try-catch statement is not supported.');
+    const handler = path.node.handler;
+    if (handler) {
+      // catch (e) { ... } => catch (_e) { let e = rts.caughtError(_e); ... }
+      const e = path.scope.generateUidIdentifier('e'),
+            decl = t.variableDeclaration('let', [
+              t.variableDeclarator(handler.param, t.callExpression(
+                t.memberExpression(t.identifier('rts'), t.identifier('caughtError'), false), [ e ]))
+            ]);
+      decl.loc = decl.declarations[0].loc = handler.param.loc;
+      handler.param = t.identifier(e.name);
+      handler.body.body.unshift(decl);
+    }
   },
-  ThrowStatement(path: NodePath<t.ThrowStatement>, st: S) {
-    st.elem.error(path, `Do not use the 'throw' operator.`);
-    path.skip();
+  ThrowStatement: {
+    enter(path: NodePath<t.ThrowStatement>, st: S) {
+      st.elem.error(path, 'EJS-THROW', `Do not use the 'throw' operator.`);
+    },
+    exit(path: NodePath<t.ThrowStatement>) {
+      // throw e => throw rts.checkThrow(e)
+      path.node.argument = dynCheck('checkThrow', path.node.loc, path.node.argument);
+    }
   },
   WithStatement(path: NodePath<t.WithStatement>, st: S) {
-    st.elem.error(path, `Do not use the 'with' statement.`);
+    st.elem.error(path, 'EJS-WITH', `Do not use the 'with' statement.`);
     path.skip();
   },
   ForOfStatement(path: NodePath<t.ForOfStatement>, st: S) {
-    st.elem.error(path, 'Do not use for-of loops.');
-    path.skip();
+    st.elem.error(path, 'EJS-FOR-OF', 'Do not use for-of loops.');
+    if (!t.isBlockStatement(path.node.body)) {
+      st.elem.error(path, 'EJS-LOOP-BRACES', 'Loop body must be enclosed in braces.',
+        st.elem.braces(path.node.body));
+    }
+    // for (const x of e) { ... } =>
+    // for (let _i = (_arr = rts.checkForOf(e), 0); _i < _arr.length; ++_i) {
+    //   const x = _arr[_i];
+    //   { ... }
+    // }
+    // The loop is an ordinary for loop, so the loop variable is initialized
+    // in the body, and the checks on for loops and arrays apply to it. _arr
+    // is a variable of the enclosing function, since Stopify does not support
+    // declaring two variables in the initializer of a for loop.
+    const { left, right, body } = path.node,
+          loc = path.node.loc,
+          i = path.scope.generateUidIdentifier('i'),
+          arr = path.scope.generateUidIdentifier('arr'),
+          arrRef = () => {
+            const x = t.identifier(arr.name);
+            x.loc = loc;
+            return x;
+          },
+          length = t.identifier('length'),
+          start = t.sequenceExpression([
+            t.assignmentExpression('=', arrRef(), dynCheck('checkForOf', right.loc, right)),
+            t.numericLiteral(0)
+          ]),
+          test = t.binaryExpression('<', t.identifier(i.name),
+            t.memberExpression(arrRef(), length, false)),
+          update = t.updateExpression('++', t.identifier(i.name), true),
+          elem = t.memberExpression(arrRef(), t.identifier(i.name), true),
+          init = t.isVariableDeclaration(left) ?
+            t.variableDeclaration(left.kind, [ t.variableDeclarator(left.declarations[0].id, elem) ]) :
+            t.expressionStatement(t.assignmentExpression('=', left, elem)),
+          replacement = t.forStatement(
+            t.variableDeclaration('let', [ t.variableDeclarator(i, start) ]),
+            test, update, t.blockStatement([ init, body ]));
+    length.loc = start.loc = test.loc = update.loc = elem.loc = init.loc = replacement.loc = loc;
+    path.scope.getFunctionParent().push({ id: arr });
+    path.replaceWith(replacement);
   },
   ForInStatement(path: NodePath<t.ForInStatement>, st: S) {
-    st.elem.error(path, 'Do not use for-in loops.');
+    st.elem.error(path, 'EJS-FOR-IN', 'Do not use for-in loops.');
     path.skip();
   }
 };
 
-// Allows ElementaryJS to be used as a Babel plugin.
-export function plugin(ejsOff: boolean) {
+// Fixes the output of the classes transform, which runs in the same pass:
+// - The transform turns super(...e) and super.m(...e) into calls of the form
+//   F.call(this, ...e), where F is the constructor or method of the
+//   superclass. Stopify does not support spread syntax, so we desugar them to
+//   F.apply(this, [].concat(e)). The visitor has already checked e.
+// - The transform uses some nodes twice, e.g., B.prototype in
+//   B.prototype.__proto__ || Object.getPrototypeOf(B.prototype). Stopify
+//   rewrites nodes in place, and so would rewrite them twice, so we copy them.
+export function classesPlugin() {
+  // The parent of each expression, where we first visited it.
+  interface P { parents: Map<t.Node, t.Node> }
+  return {
+    pre(this: P) {
+      this.parents = new Map();
+    },
+    visitor: {
+      Expression(path: NodePath<t.Expression>, st: P) {
+        const parent = st.parents.get(path.node);
+        if (parent !== undefined && parent !== path.parent) {
+          path.replaceWith((t as any).cloneDeep(path.node));
+        } else {
+          st.parents.set(path.node, path.parent);
+        }
+      },
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const { callee, arguments: args } = path.node;
+        if (!args.some(e => t.isSpreadElement(e)) || !t.isMemberExpression(callee) ||
+            !t.isIdentifier(callee.property, { name: 'call' }) || callee.computed) {
+          return;
+        }
+        const replacement = t.callExpression(
+          t.memberExpression(callee.object, t.identifier('apply'), false),
+          [ args[0] as t.Expression, concatSpread(args.slice(1)) ]);
+        replacement.loc = path.node.loc;
+        path.replaceWith(replacement);
+      }
+    }
+  };
+}
+
+// Allows ElementaryJS to be used as a Babel plugin. Errors are thrown, and
+// warnings are added to the given array when compilation succeeds. By
+// default, the plugin checks programs like the default language level.
+export function plugin(ejsOff: boolean, rules: RuleConfig = resolveLevel({}).rules,
+  warnings: ElementarySyntaxError[] = [], globals: string[] = [],
+  ignoreUnused: RegExp = resolveLevel({}).ignoreUnused) {
   State.ejsOff = ejsOff;
-  return function() { return { visitor: visitor }; };
+  State.rules = rules;
+  State.globals = globals;
+  State.ignoreUnused = ignoreUnused;
+  return function() {
+    return {
+      visitor: visitor,
+      post(this: S) { warnings.push(...this.elem.warnings); }
+    };
+  };
 }
@@ -0,0 +1,393 @@
+import * as babel from 'babel-core';
+import { applyFixes, compile, CompilerOpts, Result, RuleConfig } from '../src/index';
+import { plugin } from '../src/visitor';
+import { compileOpts } from './test-utils';
+
+// Returns the static diagnostics that ElementaryJS reports for code.
+function staticDiagnostics(code: string, opts: Partial<CompilerOpts> = {}) {
+  const result = compile(code, { ...compileOpts, ...opts });
+  if (result.kind === 'ok') {
+    throw new Error(`expected a static error, but none produced`);
+  }
+  return result.errors;
+}
+
+// Compiles code with the given rules, and expects it to compile.
+function compileWithRules(code: string, rules: RuleConfig) {
+  const result = compile(code, { ...compileOpts, rules });
+  if (result.kind === 'error') {
+    throw result;
+  }
+  return result;
+}
+
+// Returns the exception that code raises when it is run.
+function runtimeException(code: string, opts: Partial<CompilerOpts> = {}): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const result = compile(code, { ...compileOpts, ...opts });
+    if (result.kind === 'error') {
+      return reject(result);
+    }
+    result.run((result2: Result) => {
+      return result2.type === 'normal' ?
+        reject(`Expected exception, got result ${result2.value}`) :
+        resolve(result2.value);
+    });
+  });
+}
+
+describe('ElementaryJS Diagnostics', () => {
+
+  test('Static errors report start and end positions', () => {
+    expect(staticDiagnostics(`let x = 1;\nlet y = x == 1 || x == 2;`)).toEqual([
+      {
+        line: 2, column: 8, endLine: 2, endColumn: 14,
+        code: 'EJS-OP-LOOSE-EQ', severity: 'error',
+        message: `Do not use the '==' operator; use '===' instead.`,
+        fix: [ { start: 21, end: 23, text: '===' } ]
+      },
+      {
+        line: 2, column: 18, endLine: 2, endColumn: 24,
+        code: 'EJS-OP-LOOSE-EQ', severity: 'error',
+        message: `Do not use the '==' operator; use '===' instead.`,
+        fix: [ { start: 31, end: 33, text: '===' } ]
+      }
+    ]);
+  });
+
+  test('Syntax errors report a column', () => {
+    expect(staticDiagnostics(`let x = 1;\nlet = ;`)).toEqual([
+      expect.objectContaining({
+        line: 2, column: 4, endLine: 2, endColumn: 4,
+        code: 'EJS-SYNTAX', severity: 'error'
+      })
+    ]);
+  });
+
+  test('Runtime errors report start and end positions', async () => {
+    expect.assertions(1);
+    await expect(runtimeException(`let o = { x: 1 };\nlet y = 2 + o.z;`)).resolves.toEqual(
+      expect.objectContaining({
+        message: `Object does not have member 'z'.`,
+        line: 2, column: 14, endLine: 2, endColumn: 15
+      }));
+  });
+
+  test('Static errors carry stable codes', () => {
+    expect(staticDiagnostics(`var x = 1; x++; x != 2; for (const y in {}) {}`)
+      .map(e => e.code)).toEqual([
+        'EJS-VAR', 'EJS-OP-POSTFIX', 'EJS-OP-LOOSE-NEQ', 'EJS-FOR-IN'
+      ]);
+  });
+
+  test('Runtime errors carry stable codes', async () => {
+    expect.assertions(5);
+    await expect(runtimeException(`let a = [1]; a[1];`)).resolves.toEqual(
+      expect.objectContaining({ code: 'EJS-INDEX-BOUNDS', severity: 'error' }));
+    await expect(runtimeException(`let a = 1 - 'x';`)).resolves.toEqual(
+      expect.objectContaining({ code: 'EJS-OP-NUM', severity: 'error' }));
+    await expect(runtimeException(`function f(x) {} f();`)).resolves.toEqual(
+      expect.objectContaining({ code: 'EJS-ARITY', severity: 'error' }));
+    await expect(runtimeException(`for (const x of 1) {}`)).resolves.toEqual(
+      expect.objectContaining({ code: 'EJS-FOR-OF-VALUE', severity: 'error' }));
+    await expect(runtimeException(`function f() { return x; }\nf();\nlet x = 1;`)).resolves
+      .toEqual(expect.objectContaining({
+        code: 'EJS-UNINITIALIZED-READ', line: 1, column: 22, endLine: 1, endColumn: 23
+      }));
+  });
+
+  test('Rules can turn static checks off', async () => {
+    expect.assertions(1);
+    const runner = compileWithRules(`var x = 1; for (let i = 0; i < 2; i++) { x += i; }`, {
+      'EJS-VAR': 'off',
+      'EJS-OP-POSTFIX': 'off'
+    });
+    await new Promise<void>(resolve => runner.run((result: Result) => {
+      expect(result.type).toBe('normal');
+      resolve();
+    }));
+  });
+
+  test('Rules can downgrade static checks to warnings', () => {
+    expect(staticDiagnostics(`let x = 1; x++;`)).toEqual([
+      expect.objectContaining({ code: 'EJS-OP-POSTFIX', severity: 'error' })
+    ]);
+    expect(compileWithRules(`let x = 1; x++;`, { 'EJS-OP-POSTFIX': 'warning' }).kind).toBe('ok');
+  });
+
+  test('Rules only affect the checks they name', () => {
+    const result = compile(`let x = 1; x++; x == 1;`, {
+      ...compileOpts,
+      rules: { 'EJS-OP-POSTFIX': 'warning' }
+    });
+    expect(result.kind === 'error' && result.errors).toEqual([
+      expect.objectContaining({ code: 'EJS-OP-LOOSE-EQ', severity: 'error' })
+    ]);
+  });
+
+  test('Programs compile at the full level by default', () => {
+    expect(compileWithRules(`let x = 1 << 2;`, {}).level).toBe('full');
+  });
+
+  test('The Babel plugin checks programs at the default level by default', () => {
+    expect(() => babel.transform(`let x = 1 << 2;`, { plugins: [ plugin(false) ] }))
+      .not.toThrow();
+    expect(() => babel.transform(`let x = 1 << 2;`, {
+      plugins: [ plugin(false, { 'EJS-LEVEL-BITWISE': 'error' }) ]
+    })).toThrow();
+  });
+
+  test('The beginner level restricts classes, arrow functions, and bitwise operators', () => {
+    expect(staticDiagnostics(`class C {} let f = x => x; let y = ~1 & 2;`, { level: 'beginner' })
+      .map(e => e.code)).toEqual([
+        'EJS-LEVEL-CLASS', 'EJS-LEVEL-ARROW', 'EJS-LEVEL-BITWISE', 'EJS-LEVEL-BITWISE'
+      ]);
+  });
+
+  test('The beginner level restricts for-of loops', () => {
+    expect(staticDiagnostics(`for (const x of [ 1 ]) {}`, { level: 'beginner' })
+      .map(e => e.code)).toEqual([ 'EJS-FOR-OF' ]);
+    expect(compileWithRules(`for (const x of [ 1 ]) {}`, {}).kind).toBe('ok');
+  });
+
+  test('The beginner level checks the types of strict equality', async () => {
+    expect.assertions(2);
+    await expect(runtimeException(`1 === '1';`, { level: 'beginner' })).resolves.toEqual(
+      expect.objectContaining({ code: 'EJS-OP-STRICT-EQ-TYPES' }));
+    await expect(runtimeException(`1 === '1';`)).rejects.toMatch('Expected exception');
+  });
+
+  test('The beginner level only compares numbers', async () => {
+    expect.assertions(2);
+    await expect(runtimeException(`'a' < 'b';`, { level: 'beginner' })).resolves.toEqual(
+      expect.objectContaining({ code: 'EJS-OP-COMPARE-NUM' }));
+    await expect(runtimeException(`'a' < 'b';`)).rejects.toMatch('Expected exception');
+  });
+
+  test('The intermediate level restricts bitwise operators', () => {
+    expect(staticDiagnostics(`class C {} let f = x => x >> 1;`, { level: 'intermediate' })
+      .map(e => e.code)).toEqual([ 'EJS-LEVEL-BITWISE' ]);
+  });
+
+  test('Rules override the language level', () => {
+    const result = compile(`let y = 1 & 2;`, {
+      ...compileOpts,
+      level: 'intermediate',
+      rules: { 'EJS-LEVEL-BITWISE': 'off' }
+    });
+    expect(result.kind === 'ok' && result.level).toBe('intermediate');
+  });
+
+  test('Rules can only turn off some dynamic checks', async () => {
+    expect.assertions(4);
+    expect(() => compile(`let a = [1]; a[1];`, {
+      ...compileOpts,
+      rules: { 'EJS-INDEX-BOUNDS': 'off' }
+    })).toThrow(`The rule 'EJS-INDEX-BOUNDS' cannot be configured.`);
+    expect(() => compile(`1 === '1';`, {
+      ...compileOpts,
+      rules: { 'EJS-OP-STRICT-EQ-TYPES': 'warning' }
+    })).toThrow(`The rule 'EJS-OP-STRICT-EQ-TYPES' is a dynamic check, so it must be 'off' or 'error'.`);
+    await expect(runtimeException(`1 === '1';`, { rules: { 'EJS-OP-STRICT-EQ-TYPES': 'error' } }))
+      .resolves.toEqual(expect.objectContaining({ code: 'EJS-OP-STRICT-EQ-TYPES' }));
+    await expect(runtimeException(`1 === '1';`, {
+      level: 'beginner',
+      rules: { 'EJS-OP-STRICT-EQ-TYPES': 'off' }
+    })).rejects.toMatch('Expected exception');
+  });
+
+  test('Programs that rules allow to run still have dynamic checks', async () => {
+    expect.assertions(5);
+    await expect(runtimeException(`let a = []; if (1) console.log(a[5]);`, {
+      rules: { 'EJS-IF-BRACES': 'warning' }
+    })).resolves.toEqual(expect.objectContaining({ code: 'EJS-BOOL-CONDITION' }));
+    await expect(runtimeException(`let a = []; if (true) console.log(a[5]);`, {
+      rules: { 'EJS-IF-BRACES': 'off' }
+    })).resolves.toEqual(expect.objectContaining({ code: 'EJS-INDEX-BOUNDS' }));
+    await expect(runtimeException(`let a = []; if (false) {} else a[5];`, {
+      rules: { 'EJS-IF-BRACES': 'off' }
+    })).resolves.toEqual(expect.objectContaining({ code: 'EJS-INDEX-BOUNDS' }));
+    await expect(runtimeException(`let o = { x: 0 }; while ((o.y = 1) < 3) {}`, {
+      rules: { 'EJS-ASSIGN-FORBIDDEN': 'warning' }
+    })).resolves.toEqual(expect.objectContaining({ code: 'EJS-MEMBER-MISSING' }));
+    const runner = compileWithRules(`let x = 0; if ((x += 1) > 0) { x = x * 10; }`,
+      { 'EJS-ASSIGN-FORBIDDEN': 'off' });
+    await new Promise<void>(resolve => runner.run(() => {
+      expect(runner.g.x).toBe(10);
+      resolve();
+    }));
+  });
+
+  test('Rules must name known checks', () => {
+    expect(() => compile(`var x = 1;`, {
+      ...compileOpts,
+      rules: { 'EJS-VARR': 'off' } as RuleConfig
+    })).toThrow(`Unknown rule 'EJS-VARR'.`);
+  });
+
+  test('Rules cannot turn off checks on code that cannot be compiled', () => {
+    for (const code of [ 'EJS-DESTRUCTURING', 'EJS-FOR-IN', 'EJS-OP-DELETE', 'EJS-WITH' ]) {
+      expect(() => compile(`let x = 1;`, { ...compileOpts, rules: { [code]: 'off' } }))
+        .toThrow(`The rule '${code}' cannot be configured.`);
+    }
+  });
+
+  test('The REPL uses the language level of the program', async () => {
+    expect.assertions(2);
+    const result = compile(`let x = 1;`, { ...compileOpts, level: 'beginner' });
+    if (result.kind === 'error') {
+      throw result;
+    }
+    await new Promise<void>(resolve => result.run(() => resolve()));
+    await new Promise<void>(resolve => result.eval(`let f = x => x;`, (result2: Result) => {
+      expect(result2.type).toBe('exception');
+      expect(result2.value).toMatch('Arrow functions are not available at this language level.');
+      resolve();
+    }));
+  });
+
+  test('Successful compiles report warnings', () => {
+    expect(compileWithRules(`let x = 1;\nfunction f(x) { return x; }\nf(x);`, {}).warnings).toEqual([
+      {
+        line: 2, column: 11, endLine: 2, endColumn: 12,
+        code: 'EJS-SHADOW', severity: 'warning',
+        message: `'x' shadows a variable of the same name in an enclosing scope.`
+      }
+    ]);
+    expect(compileWithRules(`let x = 1; { let x = 2; console.log(x); }`, {}).warnings).toEqual([
+      expect.objectContaining({ code: 'EJS-SHADOW', column: 17 })
+    ]);
+  });
+
+  test('Warnings can be promoted to errors', () => {
+    expect(staticDiagnostics(`let x = 1; { let x = 2; }`, { rules: { 'EJS-SHADOW': 'error' } }))
+      .toEqual([ expect.objectContaining({ code: 'EJS-SHADOW', severity: 'error' }) ]);
+  });
+
+  test('Unreachable code produces warnings', () => {
+    expect(compileWithRules(`
+      function f(x) {
+        return x;
+        console.log(x);
+      }
+      for (let i = 0; i < 2; ++i) {
+        continue;
+        console.log(i);
+      }
+      while (false) {
+        console.log(0);
+      }
+      f(1);`, {}).warnings).toEqual([
+      expect.objectContaining({
+        code: 'EJS-UNREACHABLE', line: 4, message: `Code after 'return' is unreachable.`
+      }),
+      expect.objectContaining({
+        code: 'EJS-UNREACHABLE', line: 8, message: `Code after 'continue' is unreachable.`
+      }),
+      expect.objectContaining({
+        code: 'EJS-UNREACHABLE', line: 10,
+        message: 'The body of this loop is unreachable, because the loop test is false.'
+      })
+    ]);
+    expect(compileWithRules(`
+      function f(x) {
+        return g(x);
+        function g(y) { return y; }
+      }
+      f(1);
+      do { console.log(1); } while (false);`, {}).warnings).toEqual([]);
+    expect(staticDiagnostics(`while (true) {}
+console.log(1);`,
+      { rules: { 'EJS-UNREACHABLE': 'error' } })).toEqual([
+      expect.objectContaining({
+        code: 'EJS-UNREACHABLE', severity: 'error', line: 2,
+        message: 'This code is unreachable, because the code before it never completes.'
+      })
+    ]);
+  });
+
+  test('Unused variables, parameters, and functions produce warnings', () => {
+    expect(compileWithRules(`
+      let total = 0;
+      function f(x, y) {
+        let z = x;
+        return [ 1 ].map(function(a, i) { return i; });
+      }
+      function g(_unused) {
+        for (const _ of [ 1 ]) {}
+      }`, {}).warnings).toEqual([
+      expect.objectContaining({
+        code: 'EJS-UNUSED', line: 3, column: 15, message: `'f' is declared but never used.`
+      }),
+      expect.objectContaining({
+        code: 'EJS-UNUSED', line: 7, column: 15, message: `'g' is declared but never used.`
+      }),
+      expect.objectContaining({
+        code: 'EJS-UNUSED', line: 3, column: 20, message: `'y' is declared but never used.`
+      }),
+      expect.objectContaining({
+        code: 'EJS-UNUSED', line: 4, column: 12, message: `'z' is declared but never used.`
+      })
+    ]);
+    const result = compile(`function f(x) { let tmp = 1; }\nf(1);`, {
+      ...compileOpts,
+      ignoreUnused: '^(tmp|x)$'
+    });
+    expect(result.kind === 'ok' && result.warnings).toEqual([]);
+    expect(() => compile(`let x = 1;`, { ...compileOpts, ignoreUnused: '(' }))
+      .toThrow(`The ignoreUnused pattern '(' is not a valid regular expression.`);
+    expect(compileWithRules(`
+      function f({ a, b }, c) { let { d, e } = c; return a + d; }
+      f({ a: 1, b: 2 }, { d: 3, e: 4 });`, {}).warnings).toEqual([
+      expect.objectContaining({
+        code: 'EJS-UNUSED', line: 2, column: 22, message: `'b' is declared but never used.`
+      }),
+      expect.objectContaining({
+        code: 'EJS-UNUSED', line: 2, column: 41, message: `'e' is declared but never used.`
+      })
+    ]);
+  });
+
+  test('Generated code does not produce warnings', () => {
+    expect(compileWithRules(`
+      class C {
+        constructor() { this.x = 1; }
+        m() { return [1].map(y => this.x + y); }
+        n() { return function() { return [2].map(_y => this); }; }
+      }
+      function f() { return x; }
+      let x = f;`, {}).warnings).toEqual([]);
+  });
+
+  test('Mechanical errors carry fixes', () => {
+    expect(staticDiagnostics(`let x = 1;\nx == 2;`)).toEqual([
+      expect.objectContaining({
+        code: 'EJS-OP-LOOSE-EQ',
+        fix: [ { start: 13, end: 15, text: '===' } ]
+      })
+    ]);
+    expect(staticDiagnostics(`let x = 1;\nlet y = x++;`)).toEqual([
+      expect.not.objectContaining({ fix: expect.anything() })
+    ]);
+  });
+
+  test('applyFixes rewrites mechanical errors', () => {
+    expect(applyFixes(`var x = 1; if (x == 1) x++; else x--;`))
+      .toBe(`let x = 1; if (x === 1) { ++x; } else { --x; }`);
+    expect(applyFixes(`let i = 0;\nwhile (i != 10) i++;\nfor (let j = 0; j < 10; j++) ;`))
+      .toBe(`let i = 0;\nwhile (i !== 10) { ++i; }\nfor (let j = 0; j < 10; ++j) { ; }`);
+    expect(applyFixes(`let x = 1;\nswitch (x) { case 1: x = 2; break; default: }`))
+      .toBe(`let x = 1;\nswitch (x) { case 1: { x = 2; break; } default: }`);
+  });
+
+  test('applyFixes fixes nested problems', () => {
+    expect(applyFixes(`let x = 0;\nwhile (x < 2) if (x == 0) x++; else x += 2;`))
+      .toBe(`let x = 0;\nwhile (x < 2) { if (x === 0) { ++x; } else { x += 2; } }`);
+  });
+
+  test('applyFixes leaves other code alone', () => {
+    expect(applyFixes(`let x = 1;\nlet y = x++;`)).toBe(`let x = 1;\nlet y = x++;`);
+    expect(applyFixes(`let x = ;`)).toBe(`let x = ;`);
+    expect(applyFixes(`var x = 1;`, { rules: { 'EJS-VAR': 'off' } })).toBe(`var x = 1;`);
+  });
+});
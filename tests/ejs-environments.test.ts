@@ -599,7 +599,7 @@ describe('ElementaryJS Environments', () => {
      compileError(`let x;
       function t() {
         let x;
-        while(true) {
+        while(false) {
           if (true) {
             x = 1;
             if (true) {
@@ -788,6 +788,7 @@ describe('ElementaryJS Environments', () => {
       switch (y) {
         case 0: {
           1 + 2;
+          break;
         }
         case 1:
         case 2: {
@@ -1060,4 +1061,218 @@ describe('ElementaryJS Environments', () => {
       x;
     `);
   });
+
+  test('Destructuring (+)', () => {
+    compileOK(`let { x } = { x: 1 }; x;`);
+    compileOK(`let [ y, [ x ] ] = [ 1, [ 2 ] ]; x;`);
+    compileOK(`let x; [ x ] = [ 1 ]; x;`);
+    compileOK(`function f({ x }) { return x; }`);
+  });
+
+  test('Destructuring (-)', () => {
+    compileError(`let x, [ y ] = [ x ];`);
+    compileError(`let x; let { y } = { y: x };`);
+  });
+
+  test('For-of (+)', () => {
+    compileOK(`for (const x of [ 1 ]) { x; }`);
+    compileOK(`let x; for (x of [ 1 ]) { x; }`);
+    compileOK(`let x; for (const y of [ 1 ]) { x = y; x; }`);
+  });
+
+  test('For-of (-)', () => {
+    compileError(`let x; for (const y of [ x ]) { }`);
+    compileError(`let x; for (const y of [ 1 ]) { x; }`);
+  });
+
+  test('Loops that exit by break (+)', () => {
+    compileOK(`let x;
+      while (true) {
+        x = 1;
+        break;
+      }
+      x;
+    `);
+    compileOK(`let x;
+      for (let i = 0; true; ++i) {
+        if (i > 2) {
+          x = i;
+          break;
+        }
+      }
+      x;
+    `);
+    compileOK(`let x;
+      do {
+        x = 1;
+      } while (true);
+      x;
+    `);
+  });
+
+  test('Loops that exit by break (-)', () => {
+    compileError(`let x;
+      while (true) {
+        if (false) {
+          break;
+        }
+        x = 1;
+        break;
+      }
+      x;
+    `);
+    compileError(`let x, i = 0;
+      while (i < 10) {
+        x = 1;
+        break;
+      }
+      x;
+    `);
+  });
+
+  test('Continue (+)', () => {
+    compileOK(`let x, i = 0;
+      while (i < 10) {
+        ++i;
+        if (i === 1) {
+          continue;
+        }
+        x = i;
+        x;
+      }
+    `);
+  });
+
+  test('Continue (-)', () => {
+    compileError(`let x, i = 0;
+      do {
+        ++i;
+        if (i === 1) {
+          continue;
+        }
+        x = i;
+      } while (i < 10);
+      x;
+    `);
+    compileError(`let x;
+      for (let i = 0; i < 10; i += x) {
+        if (i === 1) {
+          continue;
+        }
+        x = 1;
+      }
+    `);
+  });
+
+  test('Assignments in loop bodies (+)', () => {
+    compileOK(`let x, i = 0;
+      while (i < 10) {
+        let y;
+        y = i;
+        x = y;
+        ++i;
+      }
+    `);
+    compileOK(`let x;
+      for (let i = 0; i < 10; i += x) {
+        x = 1;
+      }
+    `);
+  });
+
+  test('Assignments in loop bodies (-)', () => {
+    compileError(`let x, i = 0;
+      while (i < 10) {
+        if (i > 0) {
+          x;
+        }
+        x = i;
+        ++i;
+      }
+    `);
+    compileError(`let i = 0;
+      while (i < 10) {
+        let y;
+        if (i > 0) {
+          y;
+        }
+        y = i;
+        ++i;
+      }
+    `, `You must initialize the variable 'y' before use.`);
+  });
+
+  test('Labeled statements (+)', () => {
+    compileOK(`let x;
+      outer: while (true) {
+        while (true) {
+          x = 1;
+          break outer;
+        }
+      }
+      x;
+    `);
+    compileOK(`let x;
+      outer: while (true) {
+        for (const y of [ 1, 2 ]) {
+          x = y;
+          continue outer;
+        }
+        x = 0;
+        break;
+      }
+      x;
+    `);
+    compileOK(`let x;
+      block: {
+        x = 1;
+        if (x > 0) {
+          break block;
+        }
+        x = 2;
+      }
+      x;
+    `);
+  });
+
+  test('Labeled statements (-)', () => {
+    compileError(`let x;
+      outer: while (true) {
+        while (true) {
+          break outer;
+        }
+        x = 1;
+        break;
+      }
+      x;
+    `);
+    compileError(`let x, y = 0;
+      block: {
+        if (y > 0) {
+          break block;
+        }
+        x = 1;
+      }
+      x;
+    `);
+  });
+
+  test('Closures (+)', () => {
+    compileOK(`let x = 1; function f() { return x; } f();`);
+    compileOK(`function f() { return x; } let x = 1; f();`);
+    compileOK(`let x; x = 1; let f = () => x; f();`);
+    compileOK(`let x; function f() { x = 1; return x; }`);
+    compileOK(`let x; let f = () => x; x = 1; f();`);
+  });
+
+  test('Closures (-)', () => {
+    compileError(`let x; function f() { return x; } f();`);
+    compileError(`let x; function f() { x = 1; } f(); x;`);
+    compileError(`let x; function f() { return () => x; }`);
+  });
+
+  test('Reads before declarations (-)', () => {
+    compileError(`x; let x = 1;`);
+    compileError(`function f() { x; let x = 1; }`);
+  });
 });
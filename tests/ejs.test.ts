@@ -3,6 +3,23 @@ import { compileOpts, compileOK, staticError, dynamicError, run } from './test-u
 
 describe('ElementaryJS', () => {
 
+  test('Must declare variables before using them', () => {
+    expect(staticError(`let total = 0;\nfunction f() { return totl + 1; }`)).toEqual([
+      `'totl' is not defined; did you mean 'total'?`
+    ]);
+    expect(staticError(`consle.log(doesNotExist);`)).toEqual([
+      `'consle' is not defined; did you mean 'console'?`,
+      `'doesNotExist' is not defined.`
+    ]);
+    expect(compileOK(`
+      let n = Math.max(1, 2) + parseInt('3');
+      function f(x) { return g(x) + arguments.length; }
+      function g(y) { return y; }
+      outer: while (true) { break outer; }
+      const lib = require('lib220');
+    `).kind).toBe('ok');
+  });
+
   test('Must declare variables', () => {
     expect(staticError(`x = 10`)).toEqual(
       expect.arrayContaining([
@@ -10,6 +27,43 @@ describe('ElementaryJS', () => {
       ]));
   });
 
+  test('Dynamic error when a function reads a variable before its declaration', async () => {
+    expect.assertions(5);
+    await expect(dynamicError(`function f() { return x; }\nf();\nlet x = 1;`)).resolves.toBe(
+      `You must initialize the variable 'x' before use; it is declared on line 3.`);
+    await expect(dynamicError(`f();\nlet x = 1;\nfunction f() { return x; }`)).resolves.toBe(
+      `You must initialize the variable 'x' before use; it is declared on line 2.`);
+    await expect(dynamicError(`function main() {\n  f();\n  let x = 1;\n` +
+      `  function f() { return x; }\n}\nmain();`)).resolves.toBe(
+      `You must initialize the variable 'x' before use; it is declared on line 3.`);
+    await expect(dynamicError(`function g() {\n  let h = function() { return C; };\n  h();\n` +
+      `  class C {}\n}\ng();`)).resolves.toBe(
+      `You must initialize the variable 'C' before use; it is declared on line 4.`);
+    await expect(run(`function f() { x += 1; return x; } let x = 1; f();`)).resolves.toBe(2);
+  });
+
+  test('Dynamic error when a function reads a variable before it is assigned', async () => {
+    expect.assertions(5);
+    await expect(run(`let x; let f = function() { return x; }; x = 1; f();`)).resolves.toBe(1);
+    await expect(run(`let x; let f = () => x; [ x ] = [ 2 ]; f();`)).resolves.toBe(2);
+    await expect(run(`function g() { let x; let f = () => x; x = 3; return f(); } g();`))
+      .resolves.toBe(3);
+    await expect(dynamicError(`let x;\nlet f = function() { return x; };\nf();\nx = 1;`))
+      .resolves.toBe(`You must initialize the variable 'x' before use; it is declared on line 1.`);
+    await expect(dynamicError(`function g() {\n  let x;\n  let f = () => x;\n  f();\n` +
+      `  x = 1;\n}\ng();`)).resolves.toBe(`You must initialize the variable 'x' before use; it is declared on line 2.`);
+  });
+
+  test('Functions can use variables that are declared after them', async () => {
+    expect.assertions(5);
+    await expect(run(`function f() { return a[0]; } let a = [1]; f();`)).resolves.toBe(1);
+    await expect(run(`function f() { a[0] = 1; } let a = [0]; f(); a[0];`)).resolves.toBe(1);
+    await expect(run(`function f() { o.x = 1; } let o = { x: 0 }; f(); o.x;`)).resolves.toBe(1);
+    await expect(run(`function f() { return x ? 1 : 2; } let x = true; f();`)).resolves.toBe(1);
+    await expect(run(`function f() { return x && true; } let x = true; f();`))
+      .resolves.toBe(true);
+  });
+
   test('Duplicate let binding', () => {
     expect(staticError(`let x = 0; let x = 1`)).toEqual(
       expect.arrayContaining([
@@ -195,7 +249,7 @@ describe('ElementaryJS', () => {
     await expect(dynamicError(`[].x`))
       .resolves.toMatch(`Object does not have member 'x'.`);
     await expect(dynamicError(`[0, 1][10]`))
-        .resolves.toMatch(`Index '10' is out of array bounds.`);
+        .resolves.toMatch(`Index 10 is out of array bounds.`);
     await expect(run(`[3, 4][1]`)).resolves.toBe(4);
     await expect(run(`[].indexOf`)).resolves.toBeInstanceOf(Function);
   });
@@ -203,35 +257,35 @@ describe('ElementaryJS', () => {
   test('Cannot access array non-members', async () => {
     expect.assertions(2);
     await expect(dynamicError(`let a = []; let b = a[0];`))
-      .resolves.toMatch(`Index '0' is out of array bounds.`);
+      .resolves.toMatch(`Index 0 is out of array bounds.`);
     await expect(dynamicError(`let a = []; a[0] = 0;`))
-      .resolves.toMatch(`Index '0' is out of array bounds.`);
+      .resolves.toMatch(`Index 0 is out of array bounds.`);
   });
 
   test('Array index must be a positive integer', async () => {
     expect.assertions(2);
     await expect(dynamicError(`let a = []; let b = a[3.1415]`))
-      .resolves.toMatch(`Array index '3.1415' is not valid.`);
+      .resolves.toMatch(`Array index 3.1415 is not valid.`);
     await expect(dynamicError(`let a = []; let b = a[-1]`))
-        .resolves.toMatch(`Array index '-1' is not valid`);
+        .resolves.toMatch(`Array index -1 is not valid`);
   });
 
   test('Cannot pass array non-members as arguments to function', async () => {
     expect.assertions(1);
     await expect(dynamicError(`let a = []; Math.abs(a[0]);`))
-      .resolves.toMatch(`Index '0' is out of array bounds.`);
+      .resolves.toMatch(`Index 0 is out of array bounds.`);
   });
 
   test('Cannot assign array non-members', async () => {
     expect.assertions(1);
     await expect(dynamicError(`let obj = []; obj[10] += 5`))
-      .resolves.toMatch(`Index '10' is out of array bounds.`);
+      .resolves.toMatch(`Index 10 is out of array bounds.`);
   });
 
   test('Cannot update array non-members', async () => {
     expect.assertions(1);
     await expect(dynamicError(`let obj = []; ++obj[0]`))
-      .resolves.toMatch(`Index '0' is out of array bounds.`);
+      .resolves.toMatch(`Index 0 is out of array bounds.`);
   });
 
   test('Dynamic error when looking up non-member', async () => {
@@ -254,12 +308,30 @@ describe('ElementaryJS', () => {
       .resolves.toMatch(`Object does not have member 'y'.`);
   });
 
+  test('Missing members and globals suggest similar names', async () => {
+    expect.assertions(6);
+    await expect(dynamicError(`let a = [ 1 ]; let n = a.lenght;`))
+      .resolves.toBe(`Object does not have member 'lenght'; did you mean 'length'?`);
+    await expect(dynamicError(`let a = [ 1 ]; let f = a.pussh;`))
+      .resolves.toBe(`Object does not have member 'pussh'; did you mean 'push'?`);
+    await expect(dynamicError(`let o = { count: 1 }; ++o.cout;`))
+      .resolves.toBe(`Object does not have member 'cout'; did you mean 'count'?`);
+    await expect(dynamicError(`let o = { count: 1 }; o.xyz;`))
+      .resolves.toBe(`Object does not have member 'xyz'.`);
+    // Undeclared variables are static errors, unless the rule is off.
+    const opts = { rules: { 'EJS-UNDECLARED': 'off' } } as const;
+    await expect(dynamicError(`let total = 1; totl + 1;`, opts))
+      .resolves.toBe(`'totl' is not defined; did you mean 'total'?`);
+    await expect(dynamicError(`consle.log(1);`, opts))
+      .resolves.toBe(`'consle' is not defined; did you mean 'console'?`);
+  });
+
   test('Dynamic error when incrementing or decrementing non-number', async () => {
     expect.assertions(2);
     await expect(dynamicError(`let a = {}; --a`))
-      .resolves.toMatch("Argument of operator '--' must be a number.");
+      .resolves.toBe("Argument of operator '--' must be a number, instead received object {}.");
     await expect(dynamicError(`let a = "foo"; ++a`))
-      .resolves.toMatch("Argument of operator '++' must be a number.");
+      .resolves.toBe("Argument of operator '++' must be a number, instead received string 'foo'.");
   });
 
   test('Dynamic error when assigning a value to a non-member', async () => {
@@ -271,17 +343,60 @@ describe('ElementaryJS', () => {
   test('Dynamic error when using non-boolean in if statement', async () => {
     expect.assertions(1);
     await expect(dynamicError('if (42) {}'))
-      .resolves.toMatch(`Expected a boolean expression, instead received '42'.`);
+      .resolves.toMatch(`Expected a boolean expression, instead received 42.`);
   });
 
   test('Dynamic error when using non-boolean in loop', async () => {
     expect.assertions(3);
     await expect(dynamicError('while (0) {}'))
-      .resolves.toMatch(`Expected a boolean expression, instead received '0'.`);
+      .resolves.toMatch(`Expected a boolean expression, instead received 0.`);
     await expect(dynamicError('do {} while (0);'))
-      .resolves.toMatch(`Expected a boolean expression, instead received '0'.`);
+      .resolves.toMatch(`Expected a boolean expression, instead received 0.`);
     await expect(dynamicError('for (let x = 0; x; ++x) {}'))
-      .resolves.toMatch(`Expected a boolean expression, instead received '0'.`);
+      .resolves.toMatch(`Expected a boolean expression, instead received 0.`);
+  });
+
+  test('Runtime errors show the values they receive', async () => {
+    expect.assertions(9);
+    await expect(dynamicError(`if ({ x: 1, y: 'a', z: [ true ] }) {}`)).resolves.toBe(
+      `Expected a boolean expression, instead received { x: 1, y: 'a', z: [true] }.`);
+    await expect(dynamicError(`
+      class Point { constructor() { this.x = 1; } }
+      if (new Point()) {}
+    `)).resolves.toBe(`Expected a boolean expression, instead received Point { x: 1 }.`);
+    await expect(dynamicError(`let f = function g() {}; if (f) {}`))
+      .resolves.toBe(`Expected a boolean expression, instead received function g.`);
+    await expect(dynamicError(`function named() {} if (named) {}`))
+      .resolves.toBe(`Expected a boolean expression, instead received function named.`);
+    await expect(dynamicError(`function f() { function inner() {} return inner; } if (f()) {}`))
+      .resolves.toBe(`Expected a boolean expression, instead received function inner.`);
+    await expect(dynamicError(`let a = [ 1, 2 ]; a[1] = a; if (a) {}`))
+      .resolves.toBe(`Expected a boolean expression, instead received [1, [circular]].`);
+    await expect(dynamicError(`if (Array.create(100, 'abc')) {}`)).resolves.toBe(
+      `Expected a boolean expression, instead received ` +
+      `['abc', 'abc', 'abc', 'abc', 'abc', 'abc', 'abc', 'abc', ....`);
+    await expect(dynamicError(`let o = { x: 1 }; o.y;`))
+      .resolves.toBe(`Object does not have member 'y'.`);
+    await expect(dynamicError(`
+      let a = [];
+      for (let i = 0; i < 100000; ++i) { a = [ a ]; }
+      if (a) {}
+    `)).resolves.toBe(
+      `Expected a boolean expression, instead received ${'['.repeat(57)}....`);
+  });
+
+  test('Dynamic error when using non-boolean in conditional expression', async () => {
+    expect.assertions(2);
+    await expect(dynamicError(`let x = '' ? 1 : 2;`))
+      .resolves.toMatch(`Condition of operator '?:' must be a boolean, instead received ''.`);
+    await expect(run(`1 < 2 ? 'yes' : 'no'`)).resolves.toBe('yes');
+  });
+
+  test('Dynamic error when using non-boolean with logical not', async () => {
+    expect.assertions(2);
+    await expect(dynamicError(`let x = !0;`))
+      .resolves.toMatch(`Argument of operator '!' must be a boolean, instead received 0.`);
+    await expect(run(`[ !true, !!false ]`)).resolves.toEqual([ false, false ]);
   });
 
   test('Can access property when value is undefined', async () => {
@@ -290,11 +405,67 @@ describe('ElementaryJS', () => {
     await expect(run('let x = {y: 0}; x.y = undefined; x.y;')).resolves.toBeUndefined();
   });
 
-  test('Cannot use for-of', () => {
-    expect(staticError(`let a = [1, 2]; for (x of a) {}`)).toEqual(
-      expect.arrayContaining([
-        `Do not use for-of loops.`
-      ]));
+  test('Can use for-of over arrays and strings', async () => {
+    expect.assertions(4);
+    await expect(run(`let a = [1, 2]; let s = 0; for (const x of a) { s = s + x; } s`))
+      .resolves.toBe(3);
+    await expect(run(`let s = ''; for (const c of 'abc') { s = c + s; } s`)).resolves.toBe('cba');
+    await expect(run(`
+      let s = 0;
+      for (const [ a, b ] of [ [ 1, 2 ], [ 3, 4 ] ]) { s = s + a * b; }
+      s
+    `)).resolves.toBe(14);
+    await expect(run(`
+      let r = [];
+      outer: for (const x of [ 1, 2, 3 ]) {
+        for (const y of [ 1, 2 ]) {
+          if (y === 2) { continue outer; }
+          if (x === 3) { break outer; }
+          r.push(x * 10 + y);
+        }
+      }
+      r
+    `)).resolves.toEqual([ 11, 21 ]);
+  });
+
+  test('Dynamic error when using for-of over non-arrays', async () => {
+    expect.assertions(2);
+    await expect(dynamicError(`for (const x of { y: 1 }) {}`)).resolves.toMatch(
+      `For-of loops must iterate over an array or a string`);
+    await expect(dynamicError(`for (const x of 5) {}`)).resolves.toBe(
+      `For-of loops must iterate over an array or a string, instead received 5.`);
+  });
+
+  test('Can use for-of in functions', async () => {
+    expect.assertions(2);
+    await expect(run(`
+      function sum(arr) {
+        let s = 0;
+        for (const v of arr) {
+          s = s + v;
+        }
+        return s;
+      }
+      sum([ 1, 2 ]);
+    `)).resolves.toBe(3);
+    await expect(run(`
+      function sum(rows) {
+        let s = 0;
+        for (const row of rows) {
+          for (const v of row) {
+            s = s + v;
+          }
+        }
+        return s;
+      }
+      sum([ [ 1, 2 ], [ 3 ] ]);
+    `)).resolves.toBe(6);
+  });
+
+  test('For-of loop body must be a block', () => {
+    expect(staticError(`let x = 0; for (const y of [ 1 ]) x = y;`)).toEqual([
+      `Loop body must be enclosed in braces.`
+    ]);
   });
 
   test('Cannot use for-in', () => {
@@ -335,18 +506,78 @@ describe('ElementaryJS', () => {
   test('Dynamic error when mixing types', async () => {
     expect.assertions(2);
     await expect(dynamicError(`let a = {}, b = 1; a + b`))
-      .resolves.toMatch("Arguments of operator '+' must both be numbers or strings.");
+      .resolves.toBe("Arguments of operator '+' must both be numbers or strings; " +
+        "left is object {}, right is number 1.");
     await expect(dynamicError(`let a = "foo", b = 1; a - b`))
-      .resolves.toMatch("Arguments of operator '-' must both be numbers.");
+      .resolves.toBe("Arguments of operator '-' must both be numbers; " +
+        "left is string 'foo', right is number 1.");
+  });
+
+  test('Can compare two numbers or two strings', async () => {
+    expect.assertions(4);
+    await expect(run(`[ 1 < 2, 2 <= 1, 'apple' < 'banana', 'b' >= 'a' ]`))
+      .resolves.toEqual([ true, false, true, true ]);
+    await expect(dynamicError(`let x = 'a' < 1;`))
+      .resolves.toMatch("Arguments of operator '<' must both be numbers or both be strings;");
+    await expect(dynamicError(`let x = {} > {};`))
+      .resolves.toMatch("Arguments of operator '>' must both be numbers or both be strings;");
+    await expect(dynamicError(`let x = 'a' < 'b';`, { rules: { 'EJS-OP-COMPARE-NUM': 'error' } }))
+      .resolves.toMatch("Arguments of operator '<' must both be numbers;");
+  });
+
+  test('Arithmetic can be checked for NaN and Infinity', async () => {
+    expect.assertions(5);
+    const opts = { rules: { 'EJS-OP-NON-FINITE': 'error' } } as const;
+    await expect(run(`[ 1 / 0, 0 / 0 ]`)).resolves.toEqual([ Infinity, NaN ]);
+    await expect(run(`[ 6 / 3, 1 < Infinity, 'a' + 'b' ]`, opts)).resolves.toEqual([ 2, true, 'ab' ]);
+    await expect(dynamicError(`let x = 1 / 0;`, opts))
+      .resolves.toBe(`Operator '/' produced Infinity from arguments 1 and 0.`);
+    await expect(dynamicError(`let x = 0; x -= 0 / 0;`, opts))
+      .resolves.toBe(`Operator '/' produced NaN from arguments 0 and 0.`);
+    await expect(dynamicError(`let o = { x: 1e308 }; o.x += o.x;`, opts))
+      .resolves.toBe(`Operator '+' produced Infinity from arguments 1e+308 and 1e+308.`);
+  });
+
+  test('Unary arithmetic operators require numbers', async () => {
+    expect.assertions(4);
+    await expect(run(`let x = 3; [ -x, +x, ~x, -1 ]`)).resolves.toEqual([ -3, 3, -4, -1 ]);
+    await expect(dynamicError(`let x = -'abc';`))
+      .resolves.toBe("Argument of operator '-' must be a number, instead received string 'abc'.");
+    await expect(dynamicError(`let x = ~{};`))
+      .resolves.toBe("Argument of operator '~' must be a number, instead received object {}.");
+    await expect(dynamicError(`let x = +'42';`))
+      .resolves.toBe("Argument of operator '+' must be a number, instead received string '42'; " +
+        "use 'parseFloat' instead.");
+  });
+
+  test('Unary plus can be allowed to convert strings to numbers', async () => {
+    expect.assertions(2);
+    const opts = { rules: { 'EJS-OP-UNARY-PLUS-STRING': 'off' } } as const;
+    await expect(run(`+'42'`, opts)).resolves.toBe(42);
+    await expect(dynamicError(`let x = +true;`, opts))
+      .resolves.toBe("Argument of operator '+' must be a number, instead received boolean true.");
+  });
+
+  test('Operator errors show the types and values of the arguments', async () => {
+    expect.assertions(4);
+    await expect(dynamicError(`let x = 'abc' - 3;`)).resolves.toBe(
+      "Arguments of operator '-' must both be numbers; left is string 'abc', right is number 3.");
+    await expect(dynamicError(`let x = [ 1, 2 ] * undefined;`)).resolves.toBe(
+      "Arguments of operator '*' must both be numbers; left is array [1, 2], right is undefined.");
+    await expect(dynamicError(`let x = Array.create(20, 100) + 1;`)).resolves.toBe(
+      "Arguments of operator '+' must both be numbers or strings; " +
+      "left is array [100, 100, 100, 100, 100, 1..., right is number 1.");
+    await expect(dynamicError(`let o = { x: true }; ++o.x;`))
+      .resolves.toBe("Argument of operator '++' must be a number, instead received boolean true.");
   });
 
   test('Dynamic numeric operator check order', async () => {
     expect.assertions(2);
     // The * operator has precedence over -, hence should be dynamic checked first.
     await expect(dynamicError(`let a = "", b = 1, c = {}; a * b - c`))
-      .resolves.toMatch("Arguments of operator '*' must both be numbers.");
+      .resolves.toMatch("Arguments of operator '*' must both be numbers;");
     await expect(dynamicError(`let a = "", b = 1, c = {}; a / b * c`))
-      .resolves.toMatch("Arguments of operator '/' must both be numbers.");
+      .resolves.toMatch("Arguments of operator '/' must both be numbers;");
   });
 
   test('Can use pre-update operator with numbers', async () => {
@@ -415,6 +646,62 @@ describe('ElementaryJS', () => {
       ]));
   });
 
+  describe('With exceptions enabled', () => {
+    const opts = { rules: { 'EJS-TRY': 'off', 'EJS-THROW': 'off' } } as const;
+
+    test('Can throw and catch errors', async () => {
+      expect.assertions(2);
+      await expect(run(`
+        let r = '';
+        try { throw new Error('boom'); } catch (e) { r = e.message; }
+        r
+      `, opts)).resolves.toBe('boom');
+      await expect(run(`
+        let r = '';
+        try { throw new Error('a'); } catch ({ message }) {
+          try { throw new Error(message + 'b'); } catch (e) { r = e.message; }
+        }
+        r
+      `, opts)).resolves.toBe('ab');
+    });
+
+    test('Can catch runtime errors', async () => {
+      await expect(run(`
+        let r = '';
+        try { let a = [ 1 ]; a[2]; } catch (e) { r = e.code; }
+        r
+      `, opts)).resolves.toBe('EJS-INDEX-BOUNDS');
+    });
+
+    test('Can only throw errors', async () => {
+      expect.assertions(2);
+      await expect(dynamicError(`throw 5;`, opts)).resolves.toBe(
+        `Can only throw errors built with 'new Error(message)', instead received 5.`);
+      await expect(dynamicError(`throw new Error('boom');`, opts)).resolves.toBe('boom');
+    });
+
+    test('Finally runs once, even if the program is suspended', async () => {
+      expect.assertions(2);
+      await expect(run(`
+        let n = 0;
+        try {
+          for (let i = 0; i < 200000; ++i) { n = n + 1; }
+        } finally {
+          n = n + 1;
+        }
+        n
+      `, opts)).resolves.toBe(200001);
+      await expect(run(`
+        let r = [];
+        function f() {
+          try { return 1; } finally { r.push(2); }
+        }
+        r.push(f());
+        r
+      `, opts)).resolves.toEqual([ 2, 1 ]);
+    });
+  });
+
   test('Can use string concatenation and assignment operator', async () => {
     expect.assertions(1);
     await expect(run(`let a = "hello "; a += "world"`))
@@ -497,6 +784,18 @@ describe('ElementaryJS', () => {
     await expect(run(`let x = 2, y = 1; x !== y`)).resolves.toBe(true);
   });
 
+  test('Strict equality can require operands of the same type', async () => {
+    expect.assertions(4);
+    const opts = { rules: { 'EJS-OP-STRICT-EQ-TYPES': 'error' } } as const;
+    await expect(run(`1 === '1'`)).resolves.toBe(false);
+    await expect(run(`let x; x = undefined; [ 1 === 2, x === undefined, 'a' !== undefined ]`, opts))
+      .resolves.toEqual([ false, true, true ]);
+    await expect(dynamicError(`let b = 1 === '1';`, opts)).resolves.toMatch(
+      `Arguments of operator '===' have different types, number and string`);
+    await expect(dynamicError(`let b = {} !== 'x';`, opts)).resolves.toMatch(
+      `so the result is always true.`);
+  });
+
   test('Call a built-in method', async () => {
     expect.assertions(1);
     await expect(run(`
@@ -579,6 +878,31 @@ describe('ElementaryJS', () => {
     `)).resolves.toMatch(`Function F expected 1 argument but received 3 arguments.`);
   });
 
+  test('Default parameters are optional', async () => {
+    expect.assertions(3);
+    await expect(run(`
+      function F(x, y = 2, z = x + y) { return [ x, y, z ]; }
+      [ F(1), F(1, 1), F(1, 1, 1), F(1, undefined) ]
+    `)).resolves.toEqual([ [ 1, 2, 3 ], [ 1, 1, 2 ], [ 1, 1, 1 ], [ 1, 2, 3 ] ]);
+    await expect(run(`
+      function F({ x } = { x: 1 }) { return x; }
+      F() + F({ x: 2 })
+    `)).resolves.toBe(3);
+    await expect(run(`((x = 10) => x)()`)).resolves.toBe(10);
+  });
+
+  test('Arity-mismatch: default parameters', async () => {
+    expect.assertions(2);
+    await expect(dynamicError(`
+      function F(x, y = 2, z = 3) {}
+      F();
+    `)).resolves.toMatch(`Function F expected 1 to 3 arguments but received 0 arguments.`);
+    await expect(dynamicError(`
+      function F(x, y = 2, z = 3) {}
+      F(1, 2, 3, 4);
+    `)).resolves.toMatch(`Function F expected 1 to 3 arguments but received 4 arguments.`);
+  });
+
   test('Classes test', async () => {
     expect.assertions(1);
     await expect(run(`
@@ -703,18 +1027,18 @@ describe('ElementaryJS', () => {
 
   test('Logical operators short-circuit', async () => {
     // or:
-    await expect(run(`true || doesNotExists()`)).resolves.toBe(true);
+    await expect(run(`true || Math.doesNotExist`)).resolves.toBe(true);
     await expect(run(`true || 123`)).resolves.toBe(true);
     await expect(run(`false || true`)).resolves.toBe(true);
-    await expect(dynamicError(`false || doesNotExists()`)).resolves.toMatch(`doesNotExists is not defined`);
+    await expect(dynamicError(`false || Math.doesNotExist`)).resolves.toMatch(`does not have member 'doesNotExist'`);
     await expect(dynamicError(`false || 123`)).resolves.toMatch(`Arguments of operator '||' must both be booleans.`);
     await expect(dynamicError(`false || 'as'`)).resolves.toMatch(`Arguments of operator '||' must both be booleans.`);
     await expect(dynamicError(`0 || false`)).resolves.toMatch(`Arguments of operator '||' must both be booleans.`);
     // and:
-    await expect(run(`false && doesNotExists()`)).resolves.toBe(false);
+    await expect(run(`false && Math.doesNotExist`)).resolves.toBe(false);
     await expect(run(`false && 123`)).resolves.toBe(false);
     await expect(run(`false && true`)).resolves.toBe(false);
-    await expect(dynamicError(`true && doesNotExists()`)).resolves.toMatch(`doesNotExists is not defined`);
+    await expect(dynamicError(`true && Math.doesNotExist`)).resolves.toMatch(`does not have member 'doesNotExist'`);
     await expect(dynamicError(`true && 123`)).resolves.toMatch(`Arguments of operator '&&' must both be booleans.`);
     await expect(dynamicError(`true && 'as'`)).resolves.toMatch(`Arguments of operator '&&' must both be booleans.`);
     await expect(dynamicError(`1 && false`)).resolves.toMatch(`Arguments of operator '&&' must both be booleans.`);
@@ -723,7 +1047,7 @@ describe('ElementaryJS', () => {
       function returnTrue() {
         return true;
       }
-      !(returnTrue() || doesNotExists()) && doesNotExists();
+      !(returnTrue() || Math.doesNotExist()) && Math.doesNotExist();
     `)).resolves.toBe(false);
   });
 
@@ -736,6 +1060,48 @@ describe('ElementaryJS', () => {
     ]));
   });
 
+  test('Can destructure objects and arrays', async () => {
+    expect.assertions(4);
+    await expect(run(`
+      let { x, y: [ a, , b ] } = { x: 1, y: [ 2, 3, 4 ] };
+      x + a + b
+    `)).resolves.toBe(7);
+    await expect(run(`
+      function f({ x }, [ y, z ]) { return x + y + z; }
+      f({ x: 1 }, [ 2, 3 ])
+    `)).resolves.toBe(6);
+    await expect(run(`let f = ({ x }) => x; f({ x: 5 })`)).resolves.toBe(5);
+    await expect(run(`
+      let a = 1;
+      let b = 2;
+      [ a, b ] = [ b, a ];
+      a * 10 + b
+    `)).resolves.toBe(21);
+  });
+
+  test('Dynamic error when destructuring a non-member', async () => {
+    expect.assertions(3);
+    await expect(dynamicError(`let { y } = { x: 1 };`)).resolves.toBe(
+      `Object does not have member 'y'.`);
+    await expect(dynamicError(`let [ a, b ] = [ 1 ];`)).resolves.toBe(
+      `Index 1 is out of array bounds.`);
+    await expect(dynamicError(`let a = 0; [ a ] = 'a';`)).resolves.toBe(
+      `Array indexing called on a non-array value type.`);
+  });
+
+  test('Cannot use defaults or rest elements in patterns', () => {
+    expect(staticError(`let { x = 1 } = {}; let [ ...y ] = [];`)).toEqual([
+      `Do not use default values in patterns.`,
+      `Do not use rest elements in patterns.`
+    ]);
+  });
+
+  test('Statically reports const violations in patterns', () => {
+    expect(staticError(`const { x } = { x: 1 }; x = 2;`)).toEqual([
+      `Variable is 'const'.`
+    ]);
+  });
+
   test('Calls to .split produce a stopified array when needed', async () => {
     expect.assertions(3);
     // Case 1: built-in string method (motivating example for such check).
@@ -772,7 +1138,7 @@ describe('ElementaryJS', () => {
 
   test('Cannot set .length of arrays', async () => {
     await expect(dynamicError(`[1,2,3].length = 5`,))
-    .resolves.toMatch(`Cannot set '.length' of an array.`);
+    .resolves.toMatch(`Cannot set member 'length' of an array.`);
   });
 
   test('Cannot use computed member expressions on objects', async () => {
@@ -781,13 +1147,13 @@ describe('ElementaryJS', () => {
   });
 
   test('Overwriting globals causes runtime error', async () => {
-    await expect(dynamicError(`let test = 1`)).resolves.toMatch(`test is part of the global library, and cannot be overwritten.`);
-    await expect(dynamicError(`let lib220 = 1`)).resolves.toMatch(`lib220 is part of the global library, and cannot be overwritten.`);
-    await expect(dynamicError(`let assert = 1`)).resolves.toMatch(`assert is part of the global library, and cannot be overwritten.`);
-    await expect(dynamicError(`let console = 1`)).resolves.toMatch(`console is part of the global library, and cannot be overwritten.`);
-    await expect(dynamicError(`let version = 1`)).resolves.toMatch(`version is part of the global library, and cannot be overwritten.`);
-    await expect(dynamicError(`let elementaryjs = 1`)).resolves.toMatch(`elementaryjs is part of the global library, and cannot be overwritten.`);
-    await expect(dynamicError(`let undefined = 1`)).resolves.toMatch(`undefined is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let test = 1`)).resolves.toMatch(`'test' is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let lib220 = 1`)).resolves.toMatch(`'lib220' is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let assert = 1`)).resolves.toMatch(`'assert' is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let console = 1`)).resolves.toMatch(`'console' is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let version = 1`)).resolves.toMatch(`'version' is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let elementaryjs = 1`)).resolves.toMatch(`'elementaryjs' is part of the global library, and cannot be overwritten.`);
+    await expect(dynamicError(`let undefined = 1`)).resolves.toMatch(`'undefined' is part of the global library, and cannot be overwritten.`);
     // Array, Object and Math cannot be overwritten and does not throw dynamic error.
     await expect(run(`function rewrite() { let test = 1; return test } rewrite();`)).resolves.toBe(1);
   });
@@ -808,11 +1174,60 @@ describe('ElementaryJS', () => {
     await expect(run(`(x => { return x + 1; })(10)`)).resolves.toBe(11);
   });
 
-  test('Disallow rest parameters', async () => {
-    expect(staticError(`function rest(...args) {}`)).toEqual(
-      expect.arrayContaining([
-        `The rest parameter is not supported.`
-      ]));
+  test('Allow rest parameters', async () => {
+    expect.assertions(2);
+    await expect(run(`function rest(x, ...args) { return x + args.length; } rest(1, 2, 3)`))
+      .resolves.toBe(3);
+    await expect(run(`function rest(x, ...args) { return args; } rest(1)`)).resolves.toEqual([]);
+  });
+
+  test('Rest parameters require at least the other parameters', async () => {
+    await expect(dynamicError(`function rest(x, y, ...args) {} rest(1);`)).resolves.toBe(
+      `Function rest expected at least 2 arguments but received 1 argument.`);
+  });
+
+  test('Can spread arrays', async () => {
+    expect.assertions(4);
+    await expect(run(`let a = [ 1, [ 2 ] ]; [ 0, ...a, ...a, 3 ]`)).resolves.toEqual(
+      [ 0, 1, [ 2 ], 1, [ 2 ], 3 ]);
+    await expect(run(`function f(x, y, z) { return x + y + z; } f(...[ 1, 2 ], 3)`))
+      .resolves.toBe(6);
+    await expect(run(`Math.max(...[ 1, 5, 2 ])`)).resolves.toBe(5);
+    await expect(run(`
+      let o = { x: 1, f: function(...ys) { return this.x + ys.length; } };
+      o.f(...[ 1, 2 ])
+    `)).resolves.toBe(3);
+  });
+
+  test('Dynamic error when spreading a non-array', async () => {
+    expect.assertions(2);
+    await expect(dynamicError(`let a = [ ...'abc' ];`)).resolves.toBe(
+      `Spread syntax (...) must be applied to an array, instead received 'abc'.`);
+    await expect(dynamicError(`Math.max(...undefined);`)).resolves.toBe(
+      `Spread syntax (...) must be applied to an array, instead received undefined.`);
+  });
+
+  test('Cannot use spread with new', () => {
+    expect(staticError(`class C {} new C(...[ 1 ]);`)).toEqual([
+      `Do not use spread syntax (...) with 'new'.`
+    ]);
+  });
+
+  test('Can spread arrays in calls to super', async () => {
+    expect.assertions(3);
+    const classes = `
+      class A {
+        constructor(x, y) { this.sum = x + y; }
+        add(x, y) { return this.sum + x + y; }
+      }
+      class B extends A {
+        constructor(...args) { super(...args); }
+        add(...args) { return super.add(1, ...args) * 2; }
+      }`;
+    await expect(run(`${classes}\nnew B(1, 2).sum`)).resolves.toBe(3);
+    await expect(run(`${classes}\nnew B(1, 2).add(...[ 3 ])`)).resolves.toBe(14);
+    await expect(dynamicError(`${classes}\nnew B(1);`)).resolves.toBe(
+      `Function (anonymous) expected 2 arguments but received 1 argument.`);
   });
 
   test('Arrow functions inherit this', async () => {
@@ -898,6 +1313,66 @@ describe('ElementaryJS', () => {
     `);
   });
 
+  test('Functions that return a value must return a value on every path', () => {
+    expect(staticError(`function f(x) { if (x > 0) { return 1; } }`)).toEqual([
+      `function 'f' does not return a value on every path.`
+    ]);
+    expect(staticError(`let g = function(x) { if (x > 0) { return 1; } return; };`)).toEqual([
+      `function 'g' does not return a value on every path.`
+    ]);
+    expect(staticError(`
+      class C {
+        m(x) {
+          switch (x) {
+            case 0: { return 1; }
+            case 1: { break; }
+            default: { return 2; }
+          }
+        }
+      }
+      [ 1 ].map(function(x) { while (x > 0) { return x; } });
+    `)).toEqual([
+      `function 'm' does not return a value on every path.`,
+      `function does not return a value on every path.`
+    ]);
+    compileOK(`
+      function f(x) {
+        if (x > 0) {
+          return 1;
+        } else {
+          return 2;
+        }
+      }
+      function g(x) {
+        switch (x) {
+          case 0: { return 1; }
+          default: { return 2; }
+        }
+      }
+      function h(x) {
+        outer: while (true) {
+          while (true) {
+            break outer;
+          }
+        }
+        return 1;
+      }
+      function k(x) {
+        while (true) {
+          if (x > 0) {
+            return 1;
+          }
+        }
+      }
+      function l(x) {
+        if (x > 0) {
+          return;
+        }
+        console.log(x);
+      }
+    `);
+  });
+
   test('Parser should work', async () => {
     await expect(run(`
       parser.parseProgram('let x = 1; let y = x * 2;').kind;
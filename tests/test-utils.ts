@@ -1,4 +1,4 @@
-import { compile, CompileOK, Result } from '../src/index';
+import { compile, CompileOK, CompilerOpts, Result } from '../src/index';
 
 export const compileOpts = {
   isOnline: true,
@@ -45,9 +45,9 @@ export function compileOK(code: string): CompileOK {
 // value of the .message field of any exception that the code raises.
 // A test case should check that the message is reasonable, or it could have
 // been some other kind of failure.
-export function dynamicError(code: string) {
+export function dynamicError(code: string, opts: Partial<CompilerOpts> = {}) {
   return new Promise((resolve, reject) => {
-    const result = compile(code, compileOpts);
+    const result = compile(code, { ...compileOpts, ...opts });
     if (result.kind === 'error') {
       return reject(result);
     }
@@ -73,9 +73,9 @@ export function staticError(code: string): string[] {
 
 // Helps write test cases that expect the program to terminate normally.
 // The result is the final value of the program.
-export function run(code: string) {
+export function run(code: string, opts: Partial<CompilerOpts> = {}) {
   return new Promise((resolve, reject) => {
-    const runner = compile('', compileOpts);
+    const runner = compile('', { ...compileOpts, ...opts });
     if (runner.kind === 'error') {
       return reject(runner);
     }